@@ -7,12 +7,7 @@
  * DO NOT hardcode tokens or credentials here.
  */
 
-export interface GitHubConfig {
-  owner: string;
-  repo: string;
-  path: string;
-  token: string;
-}
+import { GitHubConfig } from "./types/index";
 
 export interface Config {
   github: GitHubConfig;
@@ -30,8 +25,10 @@ export const CONFIG: Config = {
   github: {
     owner: '',
     repo: '',
+    branch: '',
     path: '',
     token: '',
+    pushMode: 'feature-branch',
   },
   api: {
     githubBase: 'https://api.github.com',
@@ -44,4 +41,5 @@ export const CONFIG: Config = {
 
 // Mutable references that get updated at runtime
 export const GITHUB_CONFIG = CONFIG.github;
+/** API base URL used when the GitHub config doesn't set `apiBaseUrl` */
 export const GITHUB_API_BASE = CONFIG.api.githubBase;
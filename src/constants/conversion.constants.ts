@@ -20,6 +20,16 @@ export const MAX_CACHE_SIZE = 500;
 /** Maximum object pool size */
 export const MAX_POOL_SIZE = 100;
 
+/** Default viewport range of fluid clamp() values (in pixels) */
+export const DEFAULT_FLUID_MIN_VIEWPORT = 320;
+export const DEFAULT_FLUID_MAX_VIEWPORT = 1440;
+
+/** Theme name for tokens merged from a fluid mode pair */
+export const FLUID_THEME_NAME = "Fluid";
+
+/** Largest LINE_HEIGHT value treated as a unitless ratio rather than px */
+export const MAX_LINE_HEIGHT_RATIO = 4;
+
 /** Standard font weight range */
 export const MIN_FONT_WEIGHT = 100;
 export const MAX_FONT_WEIGHT = 900;
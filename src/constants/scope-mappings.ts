@@ -0,0 +1,52 @@
+/**
+ * Figma variable scope → token semantics
+ */
+
+import "../types/figma.types";
+import { DimensionCategory, VariableCategory } from "../types/index";
+
+/** How a scoped FLOAT value is written in CSS */
+export type ScopeUnit =
+  | "color"
+  | "string"
+  | "dimension"
+  | "unitless"
+  | "em"
+  | "percent"
+  | "font-weight";
+
+export interface ScopeMapping {
+  category: VariableCategory;
+  unit: ScopeUnit;
+  /** Unit override bucket for dimension scopes */
+  dimensionCategory?: DimensionCategory;
+}
+
+/**
+ * Semantics for each scope. ALL_SCOPES is intentionally missing since it
+ * says nothing about the token, so name keywords decide instead.
+ */
+export const SCOPE_MAPPINGS: Partial<Record<VariableScope, ScopeMapping>> = {
+  ALL_FILLS: { category: "color", unit: "color" },
+  FRAME_FILL: { category: "color", unit: "color" },
+  SHAPE_FILL: { category: "color", unit: "color" },
+  TEXT_FILL: { category: "color", unit: "color" },
+  STROKE_COLOR: { category: "color", unit: "color" },
+  EFFECT_COLOR: { category: "color", unit: "color" },
+  FONT_FAMILY: { category: "fonts", unit: "string" },
+  FONT_STYLE: { category: "fonts", unit: "string" },
+  FONT_WEIGHT: { category: "fonts", unit: "font-weight" },
+  FONT_SIZE: { category: "fonts", unit: "dimension", dimensionCategory: "font-size" },
+  FONT_VARIATIONS: { category: "fonts", unit: "unitless" },
+  LINE_HEIGHT: { category: "fonts", unit: "unitless" },
+  LETTER_SPACING: { category: "fonts", unit: "em" },
+  PARAGRAPH_SPACING: { category: "fonts", unit: "dimension", dimensionCategory: "spacing" },
+  PARAGRAPH_INDENT: { category: "fonts", unit: "dimension", dimensionCategory: "spacing" },
+  TEXT_CONTENT: { category: "fonts", unit: "string" },
+  CORNER_RADIUS: { category: "measures", unit: "dimension", dimensionCategory: "radius" },
+  WIDTH_HEIGHT: { category: "measures", unit: "dimension", dimensionCategory: "size" },
+  GAP: { category: "measures", unit: "dimension", dimensionCategory: "spacing" },
+  STROKE_FLOAT: { category: "measures", unit: "dimension", dimensionCategory: "border-width" },
+  EFFECT_FLOAT: { category: "measures", unit: "dimension" },
+  OPACITY: { category: "measures", unit: "percent" },
+};
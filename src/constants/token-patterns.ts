@@ -2,6 +2,8 @@
  * Token detection patterns and keyword lists
  */
 
+import { TypographyProperty } from "../types/index";
+
 /** Keywords that indicate a measures/spacing variable */
 export const MEASURES_KEYWORDS = [
   "spacing",
@@ -49,3 +51,41 @@ export const DURATION_KEYWORDS = ["duration", "timing"] as const;
 
 /** Keywords that indicate z-index values */
 export const ZINDEX_KEYWORDS = ["zindex", "z-index"] as const;
+
+/** Keywords that indicate border radius dimensions */
+export const RADIUS_KEYWORDS = ["radius", "rounded", "corner"] as const;
+
+/** Keywords that indicate border/stroke width dimensions */
+export const BORDER_WIDTH_KEYWORDS = ["border", "stroke", "outline"] as const;
+
+/** Keywords that indicate font size dimensions */
+export const FONT_SIZE_KEYWORDS = ["fontsize", "font-size", "textsize"] as const;
+
+/** Keywords that indicate spacing dimensions */
+export const SPACING_KEYWORDS = [
+  "spacing",
+  "space",
+  "gap",
+  "margin",
+  "padding",
+  "pad",
+  "inset",
+] as const;
+
+/** Keywords that indicate element size dimensions */
+export const SIZE_KEYWORDS = ["size", "width", "height", "dimension"] as const;
+
+/** Last path segments that mark a member of a typography group */
+export const TYPOGRAPHY_PROPERTY_KEYWORDS: Record<string, TypographyProperty> = {
+  fontfamily: "fontFamily",
+  family: "fontFamily",
+  typeface: "fontFamily",
+  fontsize: "fontSize",
+  size: "fontSize",
+  fontweight: "fontWeight",
+  weight: "fontWeight",
+  lineheight: "lineHeight",
+  leading: "lineHeight",
+  letterspacing: "letterSpacing",
+  tracking: "letterSpacing",
+};
@@ -1,9 +1,52 @@
 /**
  * GitHub API service for pushing CSS variables to repository
  */
-import { base64Encode } from "./helpers/string.helper";
-import { GITHUB_CONFIG, GITHUB_API_BASE } from "./config";
-import { GitHubApiResponse, ThemeCssOutput } from "./types/index";
+import { base64Decode, base64Encode } from "./helpers/string.helper";
+import {
+  getGitHubWebUrl,
+  normalizeGitHubApiBaseUrl,
+} from "./helpers/github.helper";
+import { GITHUB_CONFIG } from "./config";
+import {
+  ConversionSelection,
+  GitHubApiResponse,
+  GitHubFileResponse,
+  GitHubPullRequestOptions,
+  ThemeCssOutput,
+  ThemeTokenDiff,
+} from "./types/index";
+import {
+  diffFileTokens,
+  formatChangeSummary,
+  formatCommitChangelog,
+  formatTokenCounts,
+} from "./services/token-diff.service";
+
+type GitHubResponse = Awaited<ReturnType<typeof fetch>>;
+
+/** Attempts at finding a free feature branch name */
+const MAX_BRANCH_ATTEMPTS = 3;
+
+/** Attempts at updating the sync branch when another push races ours */
+const MAX_SYNC_ATTEMPTS = 3;
+
+const DEFAULT_SYNC_BRANCH = "figma/tokens";
+
+const DEFAULT_PR_TITLE_TEMPLATE = "Figma variables update {date}";
+
+const DEFAULT_PR_BODY_TEMPLATE = [
+  "Design tokens exported from Figma.",
+  "",
+  "Format: {format}",
+  "Exported themes: {themes}",
+  "Base branch: {base}",
+  "",
+  "### Tokens",
+  "{tokenCounts}",
+  "",
+  "### Changes",
+  "{changes}",
+].join("\n");
 
 const formatCETTimestamp = () => {
   const now = new Date();
@@ -24,310 +67,774 @@ const formatCETTimestamp = () => {
 };
 
 /**
- * Pushes multiple CSS theme files (one per theme) to GitHub in a single commit
- *
- * @param themeFiles - Object mapping theme names to their CSS content
- * @returns Result object with success status and details
+ * Configured API base URL: github.com's, or a GitHub Enterprise Server's
  */
-export async function pushCssThemesToGitHub(
-  themeFiles: ThemeCssOutput,
-  options: { fileName?: string; formatLabel?: string } = {}
-): Promise<GitHubApiResponse> {
-  try {
-    console.log("🚀 Starting CSS theme push...");
-    const themeNames = Object.keys(themeFiles);
-    const fileName = options.fileName || "variables.css";
-    const formatLabel = options.formatLabel || "CSS variables";
-    console.log(`📦 Pushing ${themeNames.length} theme(s):`, themeNames);
+const getApiBaseUrl = (): string =>
+  normalizeGitHubApiBaseUrl(GITHUB_CONFIG.apiBaseUrl || "");
 
-    if (themeNames.length === 0) {
-      throw new Error("No CSS themes to push");
-    }
-
-    // Validate GITHUB_CONFIG
-    if (!GITHUB_CONFIG.path) {
-      throw new Error(
-        "GitHub config path is not set. Please update your config.json with a directory path (e.g., 'src/styles/tokens')"
-      );
-    }
-
-    // Resolve base branch (prefer master, fallback to main)
-    const baseBranchCandidates = ["master", "main"];
-    let baseBranch = baseBranchCandidates[0];
-    let baseSha: string | null = null;
-
-    for (const candidate of baseBranchCandidates) {
-      const baseRefUrl = `${GITHUB_API_BASE}/repos/${GITHUB_CONFIG.owner}/${GITHUB_CONFIG.repo}/git/refs/heads/${candidate}`;
-      const response = await fetch(baseRefUrl, {
+/**
+ * Sends an authenticated request to the configured repository's API,
+ * e.g. githubFetch("/git/refs", { method: "POST", body: {...} }).
+ * Requests to hosts missing from the manifest's networkAccess fail before
+ * reaching GitHub, so network errors point there.
+ */
+const githubFetch = async (
+  path: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<GitHubResponse> => {
+  const apiBaseUrl = getApiBaseUrl();
+  try {
+    return await fetch(
+      `${apiBaseUrl}/repos/${GITHUB_CONFIG.owner}/${GITHUB_CONFIG.repo}${path}`,
+      {
+        method: init.method || "GET",
         headers: {
           Authorization: `Bearer ${GITHUB_CONFIG.token}`,
           Accept: "application/vnd.github+json",
           "User-Agent": "Figma-Variables-Plugin",
           "X-GitHub-Api-Version": "2022-11-28",
+          ...(init.body === undefined
+            ? {}
+            : { "Content-Type": "application/json" }),
         },
-      });
-      if (response.ok) {
-        const refData = (await response.json()) as { object: { sha: string } };
-        baseSha = refData.object.sha;
-        baseBranch = candidate;
-        break;
+        body: init.body === undefined ? undefined : JSON.stringify(init.body),
       }
-    }
+    );
+  } catch (error) {
+    const networkError = new Error(
+      `Could not reach the GitHub API at ${apiBaseUrl}.\n\n` +
+        `Please check your network connection, and that the host is listed in ` +
+        `networkAccess.allowedDomains in manifest.json.\n` +
+        `Details: ${error instanceof Error ? error.message : String(error)}`
+    );
+    (networkError as Error & { cause: unknown }).cause = error;
+    throw networkError;
+  }
+};
 
-    if (!baseSha) {
-      throw new Error(
-        `Failed to resolve base branch. Neither 'master' nor 'main' branch exists in your repository.\n\n` +
-          `Please check:\n` +
-          `1. Repository ${GITHUB_CONFIG.owner}/${GITHUB_CONFIG.repo} exists\n` +
-          `2. Your GitHub token has correct permissions (repo scope)\n` +
-          `3. At least one of these branches exists: ${baseBranchCandidates.join(
-            ", "
-          )}\n\n` +
-          `If your default branch has a different name, please create either 'main' or 'master' branch first.`
+/**
+ * Reads the `message` of a GitHub error response
+ */
+const readErrorMessage = async (response: GitHubResponse): Promise<string> => {
+  try {
+    const body = (await response.json()) as { message?: string };
+    return body?.message || response.statusText;
+  } catch (_error) {
+    return response.statusText;
+  }
+};
+
+/**
+ * Turns a failed response into an error, with setup hints for the
+ * authentication and access failures users run into most
+ */
+const toGitHubError = (
+  response: GitHubResponse,
+  apiMessage: string,
+  action: string
+): Error => {
+  const repository = `${GITHUB_CONFIG.owner}/${GITHUB_CONFIG.repo}`;
+  const webUrl = getGitHubWebUrl(getApiBaseUrl());
+
+  if (response.status === 403) {
+    return new Error(
+      `GitHub Access Denied (403 Forbidden)\n\n` +
+        `Your GitHub token doesn't have the required permissions.\n\n` +
+        `Please create a new Personal Access Token with these permissions:\n` +
+        `• repo (Full control of private repositories)\n` +
+        `• workflow (Update GitHub Action workflows)\n\n` +
+        `To create a token:\n` +
+        `1. Go to: ${webUrl}/settings/tokens/new\n` +
+        `2. Select scopes: 'repo' and 'workflow'\n` +
+        `3. Generate token and copy it\n` +
+        `4. Update your token in the Exporter tab\n\n` +
+        `Repository: ${repository}\n` +
+        `API Response: ${apiMessage}`
+    );
+  }
+
+  if (response.status === 404) {
+    return new Error(
+      `Not Found (404) while trying to ${action}\n\n` +
+        `The repository '${repository}' or branch doesn't exist or you don't have access to it.\n\n` +
+        `Please verify:\n` +
+        `• Repository name is correct\n` +
+        `• Repository exists at: ${webUrl}/${repository}\n` +
+        `• The base branch exists (leave it empty to use the default branch)\n` +
+        `• Your GitHub token has access to this repository`
+    );
+  }
+
+  if (response.status === 401) {
+    return new Error(
+      `Authentication Failed (401 Unauthorized)\n\n` +
+        `Your GitHub token is invalid or expired.\n\n` +
+        `Please create a new token at: ${webUrl}/settings/tokens/new`
+    );
+  }
+
+  return new Error(
+    `Failed to ${action}: ${response.status} ${response.statusText}\n${apiMessage}`
+  );
+};
+
+/**
+ * Resolves the configured base branch, or the repository's default branch
+ * when none is set, to its head commit
+ */
+const resolveBaseBranch = async (): Promise<{ branch: string; sha: string }> => {
+  let branch = (GITHUB_CONFIG.branch || "").trim();
+
+  if (!branch) {
+    const repoResponse = await githubFetch("");
+    if (!repoResponse.ok) {
+      throw toGitHubError(
+        repoResponse,
+        await readErrorMessage(repoResponse),
+        "read the repository"
       );
     }
+    branch = ((await repoResponse.json()) as { default_branch: string })
+      .default_branch;
+  }
 
-    console.log(`📍 Base branch: ${baseBranch} @ ${baseSha}`);
+  const refResponse = await githubFetch(`/git/ref/heads/${encodeURI(branch)}`);
+  if (!refResponse.ok) {
+    throw toGitHubError(
+      refResponse,
+      await readErrorMessage(refResponse),
+      `resolve base branch '${branch}'`
+    );
+  }
 
-    const { label: timestampLabel, slug: timestampSlug } = formatCETTimestamp();
-    let featureBranch = `feat/figma-variables-${timestampSlug}`;
+  const refData = (await refResponse.json()) as { object: { sha: string } };
+  return { branch, sha: refData.object.sha };
+};
 
-    // Create feature branch from base
-    const createRefUrl = `${GITHUB_API_BASE}/repos/${GITHUB_CONFIG.owner}/${GITHUB_CONFIG.repo}/git/refs`;
-    const createRefBody = (branch: string) => ({
-      ref: `refs/heads/${branch}`,
-      sha: baseSha,
+/**
+ * Creates a feature branch at `sha`, numbering the name when it's taken
+ */
+const createFeatureBranch = async (
+  branchName: string,
+  sha: string
+): Promise<string> => {
+  for (let attempt = 0; attempt < MAX_BRANCH_ATTEMPTS; attempt += 1) {
+    const candidate = attempt === 0 ? branchName : `${branchName}-${attempt}`;
+    const response = await githubFetch("/git/refs", {
+      method: "POST",
+      body: { ref: `refs/heads/${candidate}`, sha },
     });
 
-    let refCreated = false;
-    let attempt = 0;
-    while (!refCreated && attempt < 3) {
-      const branchName =
-        attempt === 0 ? featureBranch : `${featureBranch}-${attempt}`;
-      const createRefResponse = await fetch(createRefUrl, {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${GITHUB_CONFIG.token}`,
-          Accept: "application/vnd.github+json",
-          "Content-Type": "application/json",
-          "User-Agent": "Figma-Variables-Plugin",
-          "X-GitHub-Api-Version": "2022-11-28",
-        },
-        body: JSON.stringify(createRefBody(branchName)),
-      });
-
-      if (createRefResponse.ok) {
-        featureBranch = branchName;
-        refCreated = true;
-        console.log(`🌿 Created feature branch: ${featureBranch}`);
-      } else {
-        const body = (await createRefResponse.json()) as { message?: string };
-        if (
-          createRefResponse.status === 422 &&
-          typeof body?.message === "string" &&
-          body.message.includes("already exists")
-        ) {
-          attempt += 1;
-          continue;
-        }
-
-        // Enhanced error messages for common issues
-        if (createRefResponse.status === 403) {
-          throw new Error(
-            `GitHub Access Denied (403 Forbidden)\n\n` +
-              `Your GitHub token doesn't have the required permissions.\n\n` +
-              `Please create a new Personal Access Token with these permissions:\n` +
-              `• repo (Full control of private repositories)\n` +
-              `• workflow (Update GitHub Action workflows)\n\n` +
-              `To create a token:\n` +
-              `1. Go to: https://github.com/settings/tokens/new\n` +
-              `2. Select scopes: 'repo' and 'workflow'\n` +
-              `3. Generate token and copy it\n` +
-              `4. Update your token in the Exporter tab\n\n` +
-              `Repository: ${GITHUB_CONFIG.owner}/${GITHUB_CONFIG.repo}\n` +
-              `API Response: ${body?.message || createRefResponse.statusText}`
-          );
-        }
-
-        if (createRefResponse.status === 404) {
-          throw new Error(
-            `Repository Not Found (404)\n\n` +
-              `The repository '${GITHUB_CONFIG.owner}/${GITHUB_CONFIG.repo}' doesn't exist or you don't have access to it.\n\n` +
-              `Please verify:\n` +
-              `• Repository name is correct\n` +
-              `• Repository exists at: https://github.com/${GITHUB_CONFIG.owner}/${GITHUB_CONFIG.repo}\n` +
-              `• Your GitHub token has access to this repository`
-          );
-        }
-
-        if (createRefResponse.status === 401) {
-          throw new Error(
-            `Authentication Failed (401 Unauthorized)\n\n` +
-              `Your GitHub token is invalid or expired.\n\n` +
-              `Please create a new token at: https://github.com/settings/tokens/new`
-          );
-        }
-
-        throw new Error(
-          `Failed to create branch ${branchName}: ${createRefResponse.status} ${createRefResponse.statusText}\n` +
-            `${body?.message || ""}`
-        );
-      }
+    if (response.ok) {
+      console.log(`🌿 Created feature branch: ${candidate}`);
+      return candidate;
     }
 
-    if (!refCreated) {
-      throw new Error(
-        `Failed to create feature branch after multiple attempts`
-      );
+    const apiMessage = await readErrorMessage(response);
+    if (response.status !== 422 || !apiMessage.includes("already exists")) {
+      throw toGitHubError(response, apiMessage, `create branch ${candidate}`);
     }
-    // Get the current commit to access its tree
-    const commitUrl = `${GITHUB_API_BASE}/repos/${GITHUB_CONFIG.owner}/${GITHUB_CONFIG.repo}/git/commits/${baseSha}`;
-    const commitResponse = await fetch(commitUrl, {
-      headers: {
-        Authorization: `Bearer ${GITHUB_CONFIG.token}`,
-        Accept: "application/vnd.github+json",
-        "User-Agent": "Figma-Variables-Plugin",
-        "X-GitHub-Api-Version": "2022-11-28",
+  }
+
+  throw new Error(`Failed to create feature branch after multiple attempts`);
+};
+
+/**
+ * Creates a commit on top of `parentSha` that writes every file.
+ * `mergedParentShas` become extra parents without changing the tree.
+ */
+const createFilesCommit = async (
+  parentSha: string,
+  files: { path: string; content: string }[],
+  message: string,
+  mergedParentShas: string[] = []
+): Promise<string> => {
+  // Get the current commit to access its tree
+  const commitResponse = await githubFetch(`/git/commits/${parentSha}`);
+  if (!commitResponse.ok) {
+    throw new Error(
+      `Failed to get commit: ${commitResponse.status} ${commitResponse.statusText}`
+    );
+  }
+
+  const commitData = (await commitResponse.json()) as {
+    tree: { sha: string };
+  };
+  const baseTreeSha = commitData.tree.sha;
+  console.log(`🌳 Base tree SHA: ${baseTreeSha}`);
+
+  // Create blobs for all files
+  const treeItems = [];
+  for (const file of files) {
+    console.log(`📝 Creating blob for ${file.path}`);
+    const blobResponse = await githubFetch("/git/blobs", {
+      method: "POST",
+      body: {
+        content: base64Encode(file.content || "/* No variables exported */"),
+        encoding: "base64",
       },
     });
 
-    if (!commitResponse.ok) {
+    if (!blobResponse.ok) {
       throw new Error(
-        `Failed to get commit: ${commitResponse.status} ${commitResponse.statusText}`
+        `Failed to create blob for ${file.path}: ${blobResponse.status}`
       );
     }
 
-    const commitData = (await commitResponse.json()) as {
-      tree: { sha: string };
-    };
-    const baseTreeSha = commitData.tree.sha;
-    console.log(`🌳 Base tree SHA: ${baseTreeSha}`);
-
-    // Create blobs for all theme files
-    const treeItems = [];
-    for (const [themeName, content] of Object.entries(themeFiles)) {
-      console.log(`📝 Creating blob for theme: ${themeName}`);
-      const blobUrl = `${GITHUB_API_BASE}/repos/${GITHUB_CONFIG.owner}/${GITHUB_CONFIG.repo}/git/blobs`;
-      const blobResponse = await fetch(blobUrl, {
+    const blobData = (await blobResponse.json()) as { sha: string };
+    treeItems.push({
+      path: file.path,
+      mode: "100644",
+      type: "blob",
+      sha: blobData.sha,
+    });
+    console.log(`✅ Blob created for ${file.path}`);
+  }
+
+  // Create a new tree with all the file changes
+  const treeResponse = await githubFetch("/git/trees", {
+    method: "POST",
+    body: { base_tree: baseTreeSha, tree: treeItems },
+  });
+
+  if (!treeResponse.ok) {
+    throw new Error(
+      `Failed to create tree: ${treeResponse.status} ${treeResponse.statusText}`
+    );
+  }
+
+  const treeData = (await treeResponse.json()) as { sha: string };
+  console.log(`🌳 New tree created: ${treeData.sha}`);
+
+  const newCommitResponse = await githubFetch("/git/commits", {
+    method: "POST",
+    body: {
+      message,
+      tree: treeData.sha,
+      parents: [parentSha].concat(mergedParentShas),
+    },
+  });
+
+  if (!newCommitResponse.ok) {
+    throw new Error(
+      `Failed to create commit: ${newCommitResponse.status} ${newCommitResponse.statusText}`
+    );
+  }
+
+  const newCommitData = (await newCommitResponse.json()) as { sha: string };
+  console.log(`💾 New commit created: ${newCommitData.sha}`);
+  return newCommitData.sha;
+};
+
+/**
+ * Moves a branch to `sha`. GitHub only accepts a fast-forward; a rejected
+ * one resolves to false so callers can decide between retrying and
+ * reporting it.
+ */
+const moveBranch = async (branch: string, sha: string): Promise<boolean> => {
+  const response = await githubFetch(`/git/refs/heads/${encodeURI(branch)}`, {
+    method: "PATCH",
+    body: { sha, force: false },
+  });
+
+  if (response.ok) {
+    return true;
+  }
+
+  const apiMessage = await readErrorMessage(response);
+  if (response.status === 422) {
+    console.warn(`⚠️ Branch ${branch} rejected the update: ${apiMessage}`);
+    return false;
+  }
+  throw toGitHubError(response, apiMessage, `update branch ${branch}`);
+};
+
+/**
+ * Fast-forwards a branch to `sha`; a branch that moved in the meantime is
+ * reported instead of overwritten
+ */
+const updateBranch = async (branch: string, sha: string): Promise<void> => {
+  if (!(await moveBranch(branch, sha))) {
+    throw new Error(
+      `Branch '${branch}' moved while exporting, so the commit is not a fast-forward.\n\n` +
+        `Please export again to commit on top of the latest changes.`
+    );
+  }
+};
+
+/**
+ * Reads a branch's head commit; null when the branch doesn't exist
+ */
+const readBranchHead = async (branch: string): Promise<string | null> => {
+  const response = await githubFetch(`/git/ref/heads/${encodeURI(branch)}`);
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw toGitHubError(
+      response,
+      await readErrorMessage(response),
+      `read branch ${branch}`
+    );
+  }
+
+  return ((await response.json()) as { object: { sha: string } }).object.sha;
+};
+
+/**
+ * Whether `headSha` already contains `baseSha`, i.e. is up to date with it
+ */
+const containsCommit = async (
+  headSha: string,
+  baseSha: string
+): Promise<boolean> => {
+  const response = await githubFetch(`/compare/${baseSha}...${headSha}`);
+  if (!response.ok) {
+    throw toGitHubError(
+      response,
+      await readErrorMessage(response),
+      `compare ${headSha} with the base branch`
+    );
+  }
+
+  const { status } = (await response.json()) as { status: string };
+  return status === "ahead" || status === "identical";
+};
+
+/**
+ * Commits the files onto the sync branch. A sync branch that is up to
+ * date with the base gets the commit on top; a missing one is created
+ * from the base head. An outdated one is reset to the base head by a
+ * commit on the base that also has the old sync head as a parent, so the
+ * update is still a fast-forward. GitHub rejects the update when another
+ * push moved the branch in between, and the commit is rebuilt on the new
+ * state instead of overwriting it.
+ */
+const commitToSyncBranch = async (
+  branch: string,
+  base: { branch: string; sha: string },
+  files: { path: string; content: string }[],
+  message: string
+): Promise<string> => {
+  for (let attempt = 1; attempt <= MAX_SYNC_ATTEMPTS; attempt += 1) {
+    const headSha = await readBranchHead(branch);
+    const isUpToDate =
+      headSha !== null && (await containsCommit(headSha, base.sha));
+    const commitSha =
+      isUpToDate || headSha === null
+        ? await createFilesCommit(headSha || base.sha, files, message)
+        : await createFilesCommit(base.sha, files, message, [headSha]);
+
+    if (headSha === null) {
+      const response = await githubFetch("/git/refs", {
         method: "POST",
-        headers: {
-          Authorization: `Bearer ${GITHUB_CONFIG.token}`,
-          Accept: "application/vnd.github+json",
-          "Content-Type": "application/json",
-          "User-Agent": "Figma-Variables-Plugin",
-          "X-GitHub-Api-Version": "2022-11-28",
-        },
-        body: JSON.stringify({
-          content: base64Encode(content || "/* No variables exported */"),
-          encoding: "base64",
-        }),
+        body: { ref: `refs/heads/${branch}`, sha: commitSha },
       });
+      if (response.ok) {
+        console.log(`🌿 Created sync branch: ${branch}`);
+        return commitSha;
+      }
 
-      if (!blobResponse.ok) {
-        throw new Error(
-          `Failed to create blob for ${themeName}/${fileName}: ${blobResponse.status}`
-        );
+      const apiMessage = await readErrorMessage(response);
+      if (response.status !== 422 || !apiMessage.includes("already exists")) {
+        throw toGitHubError(response, apiMessage, `create branch ${branch}`);
       }
+    } else if (await moveBranch(branch, commitSha)) {
+      console.log(
+        isUpToDate
+          ? `🔁 Added commit to sync branch: ${branch}`
+          : `🔁 Reset sync branch to ${base.branch}: ${branch}`
+      );
+      return commitSha;
+    }
 
-      const blobData = (await blobResponse.json()) as { sha: string };
-      treeItems.push({
-        path: `${GITHUB_CONFIG.path}/${themeName}/${fileName}`,
-        mode: "100644",
-        type: "blob",
-        sha: blobData.sha,
-      });
-      console.log(`✅ Blob created for ${themeName}/${fileName}`);
+    console.warn(
+      `⚠️ Sync branch ${branch} moved during the export (attempt ${attempt}/${MAX_SYNC_ATTEMPTS})`
+    );
+  }
+
+  throw new Error(
+    `Sync branch '${branch}' kept moving while exporting.\n\n` +
+      `Please export again once other pushes to it have finished.`
+  );
+};
+
+/**
+ * Reads a file from a branch; null when it doesn't exist there yet
+ */
+const fetchBranchFile = async (
+  path: string,
+  branch: string
+): Promise<string | null> => {
+  const response = await githubFetch(
+    `/contents/${encodeURI(path)}?ref=${encodeURIComponent(branch)}`
+  );
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    console.warn(
+      `⚠️ Could not read ${path} from ${branch} for the token diff: ${response.status}`
+    );
+    return null;
+  }
+
+  const file = (await response.json()) as GitHubFileResponse;
+  if (file.encoding !== "none" && file.content !== undefined) {
+    return base64Decode(file.content);
+  }
+  if (!file.sha) {
+    return null;
+  }
+
+  // Files over 1 MB come without content, but their blob can be read
+  const blobResponse = await githubFetch(`/git/blobs/${file.sha}`);
+  if (!blobResponse.ok) {
+    console.warn(
+      `⚠️ Could not read the ${path} blob from ${branch} for the token diff: ${blobResponse.status}`
+    );
+    return null;
+  }
+
+  const blob = (await blobResponse.json()) as { content: string };
+  return base64Decode(blob.content);
+};
+
+/**
+ * Fills `{placeholder}`s; unknown placeholders are kept as written
+ */
+const renderTemplate = (
+  template: string,
+  values: Record<string, string>
+): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+    key in values ? values[key] : placeholder
+  );
+
+/**
+ * Adds reviewers and labels to a pull request. Failures only warn, since
+ * the pull request itself exists by then.
+ */
+const decoratePullRequest = async (
+  pullNumber: number,
+  options: GitHubPullRequestOptions
+): Promise<void> => {
+  const reviewers = options.reviewers || [];
+  const users = reviewers.filter((reviewer) => !reviewer.includes("/"));
+  const teams = reviewers
+    .filter((reviewer) => reviewer.includes("/"))
+    .map((reviewer) => reviewer.split("/").pop() || reviewer);
+
+  if (users.length || teams.length) {
+    const response = await githubFetch(
+      `/pulls/${pullNumber}/requested_reviewers`,
+      { method: "POST", body: { reviewers: users, team_reviewers: teams } }
+    );
+    if (!response.ok) {
+      console.warn(
+        `⚠️ Could not request reviewers: ${await readErrorMessage(response)}`
+      );
     }
+  }
 
-    // Create a new tree with all the file changes
-    const treeUrl = `${GITHUB_API_BASE}/repos/${GITHUB_CONFIG.owner}/${GITHUB_CONFIG.repo}/git/trees`;
-    const treeResponse = await fetch(treeUrl, {
+  if (options.labels?.length) {
+    const response = await githubFetch(`/issues/${pullNumber}/labels`, {
       method: "POST",
-      headers: {
-        Authorization: `Bearer ${GITHUB_CONFIG.token}`,
-        Accept: "application/vnd.github+json",
-        "Content-Type": "application/json",
-        "User-Agent": "Figma-Variables-Plugin",
-        "X-GitHub-Api-Version": "2022-11-28",
-      },
-      body: JSON.stringify({
-        base_tree: baseTreeSha,
-        tree: treeItems,
-      }),
+      body: { labels: options.labels },
     });
+    if (!response.ok) {
+      console.warn(`⚠️ Could not add labels: ${await readErrorMessage(response)}`);
+    }
+  }
+};
 
-    if (!treeResponse.ok) {
-      throw new Error(
-        `Failed to create tree: ${treeResponse.status} ${treeResponse.statusText}`
-      );
+/**
+ * Finds the open pull request from `branch`, if any
+ */
+const findOpenPullRequest = async (
+  branch: string
+): Promise<{ number: number; html_url: string } | undefined> => {
+  const response = await githubFetch(
+    `/pulls?state=open&head=${encodeURIComponent(`${GITHUB_CONFIG.owner}:${branch}`)}`
+  );
+  if (!response.ok) {
+    return undefined;
+  }
+  return ((await response.json()) as { number: number; html_url: string }[])[0];
+};
+
+/**
+ * Opens a pull request from `branch` into `base`. When GitHub answers 422
+ * because one is already open, that pull request is returned instead.
+ */
+const openPullRequest = async (
+  branch: string,
+  base: string,
+  title: string,
+  body: string,
+  options: GitHubPullRequestOptions
+): Promise<string> => {
+  const response = await githubFetch("/pulls", {
+    method: "POST",
+    body: { title, body, head: branch, base, draft: Boolean(options.draft) },
+  });
+
+  if (response.ok) {
+    const pull = (await response.json()) as { number: number; html_url: string };
+    console.log(`🔀 Opened pull request #${pull.number}`);
+    await decoratePullRequest(pull.number, options);
+    return pull.html_url;
+  }
+
+  const apiMessage = await readErrorMessage(response);
+  if (response.status === 422) {
+    const existing = await findOpenPullRequest(branch);
+    if (existing) {
+      console.log(`🔀 Pull request already open: ${existing.html_url}`);
+      return existing.html_url;
     }
+  }
+
+  throw toGitHubError(response, apiMessage, `open a pull request from ${branch}`);
+};
 
-    const treeData = (await treeResponse.json()) as { sha: string };
-    const newTreeSha = treeData.sha;
-    console.log(`🌳 New tree created: ${newTreeSha}`);
+/**
+ * Refreshes the title and description of the sync branch's open pull
+ * request, or opens one when there is none
+ */
+const upsertPullRequest = async (
+  branch: string,
+  base: string,
+  title: string,
+  body: string,
+  options: GitHubPullRequestOptions
+): Promise<string> => {
+  const existing = await findOpenPullRequest(branch);
+  if (!existing) {
+    return openPullRequest(branch, base, title, body, options);
+  }
 
-    // Create a new commit with the tree
-    const themesLabel =
-      themeNames.length === 1
-        ? themeNames[0]
-        : `${themeNames.length} themes (${themeNames.join(", ")})`;
-    const commitMessage = `feat(figma-variables): Figma variables exported ${timestampLabel}\n\nFormat: ${formatLabel}\nExported themes: ${themesLabel}\nBase branch: ${baseBranch}`;
-    const newCommitUrl = `${GITHUB_API_BASE}/repos/${GITHUB_CONFIG.owner}/${GITHUB_CONFIG.repo}/git/commits`;
-    const newCommitResponse = await fetch(newCommitUrl, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${GITHUB_CONFIG.token}`,
-        Accept: "application/vnd.github+json",
-        "Content-Type": "application/json",
-        "User-Agent": "Figma-Variables-Plugin",
-        "X-GitHub-Api-Version": "2022-11-28",
-      },
-      body: JSON.stringify({
-        message: commitMessage,
-        tree: newTreeSha,
-        parents: [baseSha],
-      }),
-    });
+  const response = await githubFetch(`/pulls/${existing.number}`, {
+    method: "PATCH",
+    body: { title, body },
+  });
+  if (!response.ok) {
+    throw toGitHubError(
+      response,
+      await readErrorMessage(response),
+      `update pull request #${existing.number}`
+    );
+  }
+
+  console.log(`🔀 Updated pull request #${existing.number}`);
+  return existing.html_url;
+};
+
+/**
+ * Commit message lines describing which collections, modes and names
+ * were exported
+ */
+const formatSelectionLines = (selection?: ConversionSelection): string[] => {
+  if (!selection) {
+    return [];
+  }
 
-    if (!newCommitResponse.ok) {
+  return [
+    `Collections: ${selection.collections.join(", ")}`,
+    ...(selection.referencedCollections.length
+      ? [
+          `Referenced library collections: ${selection.referencedCollections.join(", ")}`,
+        ]
+      : []),
+    `Modes: ${selection.modes.join(", ")}`,
+    ...(selection.includePatterns.length
+      ? [`Included names: ${selection.includePatterns.join(", ")}`]
+      : []),
+    ...(selection.excludePatterns.length
+      ? [`Excluded names: ${selection.excludePatterns.join(", ")}`]
+      : []),
+  ];
+};
+
+/**
+ * Pushes multiple CSS theme files (one per theme) to GitHub in a single commit.
+ * The commit lands on a new feature branch off the base branch, directly
+ * on the base branch in "direct" push mode, or on the rolling sync branch
+ * in "sync-branch" mode. Feature and sync branches get a pull request when
+ * that's enabled in the config; the sync branch's open one is updated.
+ *
+ * @param themeFiles - Object mapping theme names to their CSS content
+ * @param options.themes - Theme names for the commit message when files don't map 1:1 to themes
+ * @param options.selection - Converted collections, modes and name filters for the commit message
+ * @returns Result object with success status and details
+ */
+export async function pushCssThemesToGitHub(
+  themeFiles: ThemeCssOutput,
+  options: {
+    fileName?: string;
+    formatLabel?: string;
+    themes?: string[];
+    selection?: ConversionSelection;
+  } = {}
+): Promise<GitHubApiResponse> {
+  try {
+    console.log("🚀 Starting CSS theme push...");
+    const themeNames = Object.keys(themeFiles);
+    const fileName = options.fileName || "variables.css";
+    const formatLabel = options.formatLabel || "CSS variables";
+    console.log(`📦 Pushing ${themeNames.length} theme(s):`, themeNames);
+
+    if (themeNames.length === 0) {
+      throw new Error("No CSS themes to push");
+    }
+
+    // Validate GITHUB_CONFIG
+    if (!GITHUB_CONFIG.path) {
       throw new Error(
-        `Failed to create commit: ${newCommitResponse.status} ${newCommitResponse.statusText}`
+        "GitHub config path is not set. Please update your config.json with a directory path (e.g., 'src/styles/tokens')"
       );
     }
 
-    const newCommitData = (await newCommitResponse.json()) as { sha: string };
-    const newCommitSha = newCommitData.sha;
-    console.log(`💾 New commit created: ${newCommitSha}`);
-
-    // Update the feature branch reference to point to the new commit
-    const updateRefUrl = `${GITHUB_API_BASE}/repos/${GITHUB_CONFIG.owner}/${GITHUB_CONFIG.repo}/git/refs/heads/${featureBranch}`;
-    const updateRefResponse = await fetch(updateRefUrl, {
-      method: "PATCH",
-      headers: {
-        Authorization: `Bearer ${GITHUB_CONFIG.token}`,
-        Accept: "application/vnd.github+json",
-        "Content-Type": "application/json",
-        "User-Agent": "Figma-Variables-Plugin",
-        "X-GitHub-Api-Version": "2022-11-28",
-      },
-      body: JSON.stringify({
-        sha: newCommitSha,
-        force: false,
-      }),
-    });
+    const base = await resolveBaseBranch();
+    console.log(`📍 Base branch: ${base.branch} @ ${base.sha}`);
 
-    if (!updateRefResponse.ok) {
+    const { label: timestampLabel, slug: timestampSlug } = formatCETTimestamp();
+    const isDirect = GITHUB_CONFIG.pushMode === "direct";
+    const isSync = GITHUB_CONFIG.pushMode === "sync-branch";
+    const syncBranch = (GITHUB_CONFIG.syncBranch || "").trim() || DEFAULT_SYNC_BRANCH;
+    if (isSync && syncBranch === base.branch) {
       throw new Error(
-        `Failed to update branch: ${updateRefResponse.status} ${updateRefResponse.statusText}`
+        `The sync branch can't be the base branch '${base.branch}'. Please choose another sync branch name.`
+      );
+    }
+
+    const files = Object.entries(themeFiles).map(([themeName, content]) => ({
+      theme: themeName,
+      path: `${GITHUB_CONFIG.path}/${
+        themeName ? `${themeName}/${fileName}` : fileName
+      }`,
+      content,
+    }));
+
+    // The pull request compares with the base branch, while the commit
+    // lands on the target branch's head: an existing sync branch carries
+    // earlier exports, feature branches start at the base head
+    const compareBranch =
+      isSync && (await readBranchHead(syncBranch)) !== null
+        ? syncBranch
+        : base.branch;
+    const diffs: ThemeTokenDiff[] = [];
+    const commitDiffs: ThemeTokenDiff[] = [];
+    for (const file of files) {
+      const baseContent = await fetchBranchFile(file.path, base.branch);
+      diffs.push(diffFileTokens(file.theme, file.path, baseContent, file.content));
+      commitDiffs.push(
+        compareBranch === base.branch
+          ? diffs[diffs.length - 1]
+          : diffFileTokens(
+              file.theme,
+              file.path,
+              await fetchBranchFile(file.path, compareBranch),
+              file.content
+            )
       );
     }
 
-    console.log(`✅ Branch ${featureBranch} updated successfully`);
+    // Tokens only feed the changelog; any other output change, such as a
+    // renamed cssVariables map or new utility classes, is still pushed
+    if (commitDiffs.every((diff) => diff.unchanged)) {
+      console.log(`⏭️ No changes compared with ${compareBranch}, skipping push`);
+      return {
+        success: true,
+        skipped: true,
+        message: `Nothing changed compared with ${compareBranch} apart from the export timestamp, so nothing was pushed`,
+        branch: compareBranch,
+      };
+    }
+
+    const labelThemes = options.themes || themeNames;
+    const themesLabel =
+      labelThemes.length === 1
+        ? labelThemes[0]
+        : `${labelThemes.length} themes (${labelThemes.join(", ")})`;
+    const commitMessage = [
+      `feat(figma-variables): Figma variables exported ${timestampLabel}`,
+      "",
+      `Format: ${formatLabel}`,
+      `Exported themes: ${themesLabel}`,
+      ...formatSelectionLines(options.selection),
+      `Base branch: ${base.branch}`,
+      "",
+      ...formatCommitChangelog(commitDiffs),
+    ].join("\n");
+
+    let targetBranch = base.branch;
+    let newCommitSha: string;
+    if (isSync) {
+      targetBranch = syncBranch;
+      newCommitSha = await commitToSyncBranch(
+        syncBranch,
+        base,
+        files,
+        commitMessage
+      );
+    } else {
+      if (!isDirect) {
+        targetBranch = await createFeatureBranch(
+          `feat/figma-variables-${timestampSlug}`,
+          base.sha
+        );
+      }
+      newCommitSha = await createFilesCommit(base.sha, files, commitMessage);
+
+      // Point the target branch at the new commit
+      await updateBranch(targetBranch, newCommitSha);
+    }
+    console.log(`✅ Branch ${targetBranch} updated successfully`);
+
+    const pullRequest = GITHUB_CONFIG.pullRequest;
+    let prUrl: string | undefined;
+    let warning: string | undefined;
+    if (!isDirect && pullRequest?.enabled) {
+      const templateValues = {
+        date: timestampLabel,
+        format: formatLabel,
+        themes: themesLabel,
+        branch: targetBranch,
+        base: base.branch,
+        tokenCounts: formatTokenCounts(diffs),
+        changes: formatChangeSummary(diffs),
+      };
+      try {
+        prUrl = await (isSync ? upsertPullRequest : openPullRequest)(
+          targetBranch,
+          base.branch,
+          renderTemplate(
+            pullRequest.titleTemplate || DEFAULT_PR_TITLE_TEMPLATE,
+            templateValues
+          ),
+          renderTemplate(
+            pullRequest.bodyTemplate || DEFAULT_PR_BODY_TEMPLATE,
+            templateValues
+          ),
+          pullRequest
+        );
+      } catch (error) {
+        // The commit is already pushed, so report the PR failure alongside it
+        console.warn("⚠️ Could not open pull request:", error);
+        warning = `Pull request not opened: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`;
+      }
+    }
 
     return {
       success: true,
-      message: `Successfully pushed ${themeNames.length} ${formatLabel} file(s) to ${featureBranch} in a single commit`,
+      message: `Successfully pushed ${themeNames.length} ${formatLabel} file(s) to ${targetBranch} in a single commit`,
       sha: newCommitSha,
+      branch: targetBranch,
+      prUrl,
+      warning,
     };
   } catch (error) {
     console.error("❌ Error pushing CSS themes to GitHub:", error);
@@ -57,6 +57,9 @@ export const returnToPool = (obj: ProcessedVariable): void => {
   obj.value = '';
   obj.type = 'color';
   obj.variable = null;
+  obj.source = undefined;
+  obj.tailwindNamespace = undefined;
+  obj.namePrefix = undefined;
 
   // Return to pool (limit pool size to prevent memory leaks)
   if (variablePool.length < MAX_POOL_SIZE) {
@@ -1,8 +1,16 @@
 /**
  * Color conversion helper functions
  */
-import Colorizr from "colorizr";
+import Colorizr, {
+  SRGB_TO_P3,
+  srgbGammaDecode,
+  srgbGammaEncode,
+} from "colorizr";
 import "../types/figma.types";
+import { ColorFormat } from "../types/index";
+
+/** Default number of decimals for fractional color components */
+export const DEFAULT_COLOR_PRECISION = 3;
 
 /** Clamps value to 0-1 range */
 const clampUnitRange = (value: number): number => {
@@ -34,22 +42,23 @@ const calculateHue = (
   }
 };
 
-/** Converts value to percentage */
-const toPercent = (value: number): number => Math.round(value * 100);
-
-/** Builds HSL string */
+/**
+ * Builds a space-separated hsl(h s% l% / a) string, rounding every
+ * component to `precision` decimals
+ */
 const buildHslString = (
   hue: number,
   saturation: number,
   lightness: number,
-  alpha?: string
+  precision: number,
+  alpha?: number
 ): string => {
-  const h = Math.round(hue);
-  const s = toPercent(saturation);
-  const l = toPercent(lightness);
+  const h = formatOklchNumber(hue, precision);
+  const s = formatOklchNumber(saturation * 100, precision);
+  const l = formatOklchNumber(lightness * 100, precision);
   return alpha === undefined
-    ? `hsl(${h}, ${s}%, ${l}%)`
-    : `hsla(${h}, ${s}%, ${l}%, ${alpha})`;
+    ? `hsl(${h} ${s}% ${l}%)`
+    : `hsl(${h} ${s}% ${l}% / ${formatOklchNumber(alpha, precision)})`;
 };
 
 /** Normalizes RGB values */
@@ -63,7 +72,12 @@ const normalizeRgb = (r: number, g: number, b: number) => {
 /**
  * Converts RGB color to HSL format
  */
-export const rgbToHsl = (r: number, g: number, b: number): string => {
+export const rgbToHsl = (
+  r: number,
+  g: number,
+  b: number,
+  precision = DEFAULT_COLOR_PRECISION
+): string => {
   const { normalizedR, normalizedG, normalizedB } = normalizeRgb(r, g, b);
   const max = Math.max(normalizedR, normalizedG, normalizedB);
   const min = Math.min(normalizedR, normalizedG, normalizedB);
@@ -77,16 +91,22 @@ export const rgbToHsl = (r: number, g: number, b: number): string => {
   const lightness = (max + min) / 2;
   const saturation = delta === 0 ? 0 : delta / (1 - Math.abs(2 * lightness - 1));
 
-  return buildHslString(hue, saturation, lightness);
+  return buildHslString(hue, saturation, lightness, precision);
 };
 
 /**
  * Converts RGBA color to HSL format with alpha channel
  */
-export const rgbaToHsl = (r: number, g: number, b: number, a: number): string => {
+export const rgbaToHsl = (
+  r: number,
+  g: number,
+  b: number,
+  a: number,
+  precision = DEFAULT_COLOR_PRECISION
+): string => {
   const clampedAlpha = clampUnitRange(a);
   if (clampedAlpha === 1) {
-    return rgbToHsl(r, g, b);
+    return rgbToHsl(r, g, b, precision);
   }
 
   const { normalizedR, normalizedG, normalizedB } = normalizeRgb(r, g, b);
@@ -101,19 +121,18 @@ export const rgbaToHsl = (r: number, g: number, b: number, a: number): string =>
 
   const lightness = (max + min) / 2;
   const saturation = delta === 0 ? 0 : delta / (1 - Math.abs(2 * lightness - 1));
-  const alpha = formatAlpha(clampedAlpha);
-
-  return buildHslString(hue, saturation, lightness, alpha);
+  return buildHslString(hue, saturation, lightness, precision, clampedAlpha);
 };
 
 /**
  * Formats decimal alpha values with proper precision (0.1, 0.2, etc.)
  */
-export const formatAlpha = (alpha: number): string => {
+export const formatAlpha = (alpha: number, precision = 1): string => {
   if (alpha === 1) return "1";
   if (alpha === 0) return "0";
-  // Round to 1 decimal place and format with leading zero
-  return (Math.round(alpha * 10) / 10).toString();
+  // Round to the requested decimal places and format with leading zero
+  const multiplier = Math.pow(10, precision);
+  return (Math.round(alpha * multiplier) / multiplier).toString();
 };
 
 /**
@@ -127,9 +146,13 @@ export const clampColorComponent = (value: number): number => {
 };
 
 /**
- * Converts RGB/RGBA color to HSL
+ * Converts RGB/RGBA color to HSL.
+ * Output format: hsl(h s% l% / a) with spaces, no commas.
  */
-export const convertColorToHsl = (colorValue: RGB | RGBA): string => {
+export const convertColorToHsl = (
+  colorValue: RGB | RGBA,
+  precision = DEFAULT_COLOR_PRECISION
+): string => {
   const clampedR = clampColorComponent(colorValue.r);
   const clampedG = clampColorComponent(colorValue.g);
   const clampedB = clampColorComponent(colorValue.b);
@@ -139,11 +162,12 @@ export const convertColorToHsl = (colorValue: RGB | RGBA): string => {
       clampedR,
       clampedG,
       clampedB,
-      clampColorComponent(colorValue.a)
+      clampColorComponent(colorValue.a),
+      precision
     );
   }
 
-  return rgbToHsl(clampedR, clampedG, clampedB);
+  return rgbToHsl(clampedR, clampedG, clampedB, precision);
 };
 
 /**
@@ -151,9 +175,12 @@ export const convertColorToHsl = (colorValue: RGB | RGBA): string => {
  * Removes unnecessary trailing zeros but keeps decimal precision
  * Examples: 1.000 → 1, 0.750 → 0.75, 0.500 → 0.5
  */
-const formatOklchNumber = (value: number): string => {
+const formatOklchNumber = (
+  value: number,
+  precision = DEFAULT_COLOR_PRECISION
+): string => {
   // Convert to string with sufficient precision
-  let formatted = value.toFixed(3);
+  let formatted = value.toFixed(precision);
 
   // Remove trailing zeros after decimal point
   if (formatted.includes('.')) {
@@ -168,7 +195,10 @@ const formatOklchNumber = (value: number): string => {
  * Output format: oklch(l c h / a) with spaces, no commas.
  * Numbers are formatted to remove unnecessary trailing zeros.
  */
-export const convertColorToOklch = (colorValue: RGB | RGBA): string => {
+export const convertColorToOklch = (
+  colorValue: RGB | RGBA,
+  precision = DEFAULT_COLOR_PRECISION
+): string => {
     const r = Math.round(clampColorComponent(colorValue.r) * 255);
     const g = Math.round(clampColorComponent(colorValue.g) * 255);
     const b = Math.round(clampColorComponent(colorValue.b) * 255);
@@ -178,15 +208,134 @@ export const convertColorToOklch = (colorValue: RGB | RGBA): string => {
 
     // Get OKLCH values from Colorizr (oklch is a property, not a method)
     const oklchValues = color.oklch;
-    const l = formatOklchNumber(oklchValues.l);
-    const c = formatOklchNumber(oklchValues.c);
-    const h = formatOklchNumber(oklchValues.h);
+    const l = formatOklchNumber(oklchValues.l, precision);
+    const c = formatOklchNumber(oklchValues.c, precision);
+    const h = formatOklchNumber(oklchValues.h, precision);
 
     // Format OKLCH string with properly formatted numbers
     if (alpha < 1) {
-      const a = formatOklchNumber(alpha);
+      const a = formatOklchNumber(alpha, precision);
       return `oklch(${l} ${c} ${h} / ${a})`;
     }
 
     return `oklch(${l} ${c} ${h})`;
 };
+
+/**
+ * Converts RGB/RGBA color to OKLab format.
+ * Output format: oklab(l a b / alpha) with spaces, no commas.
+ */
+export const convertColorToOklab = (
+  colorValue: RGB | RGBA,
+  precision = DEFAULT_COLOR_PRECISION
+): string => {
+  const r = Math.round(clampColorComponent(colorValue.r) * 255);
+  const g = Math.round(clampColorComponent(colorValue.g) * 255);
+  const b = Math.round(clampColorComponent(colorValue.b) * 255);
+  const alpha = "a" in colorValue ? clampColorComponent(colorValue.a) : 1;
+
+  const oklabValues = new Colorizr({ r, g, b, alpha }).oklab;
+  const l = formatOklchNumber(oklabValues.l, precision);
+  const a = formatOklchNumber(oklabValues.a, precision);
+  const bValue = formatOklchNumber(oklabValues.b, precision);
+
+  if (alpha < 1) {
+    return `oklab(${l} ${a} ${bValue} / ${formatOklchNumber(alpha, precision)})`;
+  }
+
+  return `oklab(${l} ${a} ${bValue})`;
+};
+
+/** Formats a 0-1 channel as two hex digits */
+const toHexByte = (value: number): string =>
+  Math.round(clampColorComponent(value) * 255)
+    .toString(16)
+    .padStart(2, "0");
+
+/**
+ * Converts RGB/RGBA color to hex.
+ * Alpha is appended as #rrggbbaa when translucent, or always with `forceAlpha`.
+ */
+export const convertColorToHex = (
+  colorValue: RGB | RGBA,
+  forceAlpha = false
+): string => {
+  const alpha = "a" in colorValue ? clampColorComponent(colorValue.a) : 1;
+  const hex = `#${toHexByte(colorValue.r)}${toHexByte(colorValue.g)}${toHexByte(colorValue.b)}`;
+
+  return forceAlpha || alpha < 1 ? `${hex}${toHexByte(alpha)}` : hex;
+};
+
+/**
+ * Converts RGB/RGBA color to space-separated rgb().
+ * Output format: rgb(r g b / a) with 0-255 channels.
+ */
+export const convertColorToRgb = (
+  colorValue: RGB | RGBA,
+  precision = DEFAULT_COLOR_PRECISION
+): string => {
+  const r = Math.round(clampColorComponent(colorValue.r) * 255);
+  const g = Math.round(clampColorComponent(colorValue.g) * 255);
+  const b = Math.round(clampColorComponent(colorValue.b) * 255);
+  const alpha = "a" in colorValue ? clampColorComponent(colorValue.a) : 1;
+
+  return alpha < 1
+    ? `rgb(${r} ${g} ${b} / ${formatOklchNumber(alpha, precision)})`
+    : `rgb(${r} ${g} ${b})`;
+};
+
+/**
+ * Converts RGB/RGBA color to the Display P3 color space.
+ * Output format: color(display-p3 r g b / a).
+ */
+export const convertColorToDisplayP3 = (
+  colorValue: RGB | RGBA,
+  precision = DEFAULT_COLOR_PRECISION
+): string => {
+  const linear = [colorValue.r, colorValue.g, colorValue.b].map((channel) =>
+    srgbGammaDecode(clampColorComponent(channel))
+  );
+  const [r, g, b] = SRGB_TO_P3.map((row) =>
+    formatOklchNumber(
+      clampColorComponent(
+        srgbGammaEncode(
+          row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2]
+        )
+      ),
+      precision
+    )
+  );
+  const alpha = "a" in colorValue ? clampColorComponent(colorValue.a) : 1;
+
+  return alpha < 1
+    ? `color(display-p3 ${r} ${g} ${b} / ${formatOklchNumber(alpha, precision)})`
+    : `color(display-p3 ${r} ${g} ${b})`;
+};
+
+/**
+ * Converts RGB/RGBA color to the requested CSS color format.
+ * Precision is the number of decimals kept for fractional components.
+ */
+export const convertColor = (
+  colorValue: RGB | RGBA,
+  format: ColorFormat = "oklch",
+  precision = DEFAULT_COLOR_PRECISION
+): string => {
+  switch (format) {
+    case "hex":
+      return convertColorToHex(colorValue);
+    case "hex8":
+      return convertColorToHex(colorValue, true);
+    case "rgb":
+      return convertColorToRgb(colorValue, precision);
+    case "hsl":
+      return convertColorToHsl(colorValue, precision);
+    case "oklab":
+      return convertColorToOklab(colorValue, precision);
+    case "display-p3":
+      return convertColorToDisplayP3(colorValue, precision);
+    case "oklch":
+    default:
+      return convertColorToOklch(colorValue, precision);
+  }
+};
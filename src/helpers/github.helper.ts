@@ -0,0 +1,59 @@
+/**
+ * GitHub host helper functions
+ */
+
+import { GITHUB_API_BASE } from "../config";
+
+/** https://host[:port][/path], without query or fragment */
+const API_BASE_URL_PATTERN = /^https:\/\/([a-z0-9.-]+)(:\d+)?(\/[^\s?#]*)?$/i;
+
+/**
+ * Validates a GitHub REST API base URL and returns it without trailing
+ * slashes; empty means github.com.
+ * Examples:
+ * - "" → "https://api.github.com"
+ * - "https://github.example.com/api/v3/" → "https://github.example.com/api/v3"
+ * - "https://github.com" → throws (the API lives at api.github.com)
+ */
+export const normalizeGitHubApiBaseUrl = (value: string): string => {
+  const url = value.trim().replace(/\/+$/, "");
+  if (!url) {
+    return GITHUB_API_BASE;
+  }
+
+  const match = url.match(API_BASE_URL_PATTERN);
+  if (!match) {
+    throw new Error(
+      `Invalid GitHub API URL '${value}'. Use an https:// URL such as ` +
+        `https://api.github.com or https://github.example.com/api/v3`
+    );
+  }
+
+  const host = match[1].toLowerCase();
+  if (host === "github.com" || host === "www.github.com") {
+    throw new Error(
+      `'${value}' is the GitHub website, not its API. Use https://api.github.com instead`
+    );
+  }
+
+  return url;
+};
+
+/**
+ * Returns the website URL that belongs to a GitHub API base URL: the
+ * host without its API path, or without the `api.` subdomain when the
+ * API sits at the host root
+ * Examples:
+ * - "https://api.github.com" → "https://github.com"
+ * - "https://github.example.com/api/v3" → "https://github.example.com"
+ * - "https://api.acme.ghe.com" → "https://acme.ghe.com"
+ */
+export const getGitHubWebUrl = (apiBaseUrl: string): string => {
+  const match = apiBaseUrl.match(API_BASE_URL_PATTERN);
+  if (!match) {
+    return "https://github.com";
+  }
+
+  const host = match[3] ? match[1] : match[1].replace(/^api\./i, "");
+  return `https://${host}${match[2] || ""}`;
+};
@@ -3,15 +3,39 @@
  */
 
 import { BASE_FONT_SIZE } from "../constants/conversion.constants";
+import { DimensionUnit } from "../types/index";
 
 /**
  * Converts pixel values to rem units with up to two decimal places
  */
-export const pxToRem = (px: number): string => {
-  const rem = roundToDecimals(px / BASE_FONT_SIZE, 2);
+export const pxToRem = (px: number, rootFontSize = BASE_FONT_SIZE): string => {
+  const rem = roundToDecimals(px / rootFontSize, 2);
   return `${rem}rem`;
 };
 
+/**
+ * Formats a pixel value in the requested unit.
+ * em is relative to the root font size as well, since the element font
+ * size is unknown at export time.
+ */
+export const formatDimension = (
+  px: number,
+  unit: DimensionUnit = "rem",
+  rootFontSize = BASE_FONT_SIZE
+): string => {
+  switch (unit) {
+    case "px":
+      return `${roundToDecimals(px, 2)}px`;
+    case "em":
+      return `${roundToDecimals(px / rootFontSize, 2)}em`;
+    case "unitless":
+      return `${roundToDecimals(px, 2)}`;
+    case "rem":
+    default:
+      return pxToRem(px, rootFontSize);
+  }
+};
+
 /**
  * Checks if value is a valid finite number
  */
@@ -79,7 +79,73 @@ export const hasPotentiallyUnsafeChars = (value: string): boolean => {
 };
 
 /**
- * Custom base64 encoding implementation for GitHub API compatibility
+ * Encodes text as UTF-8, one character per byte (the plugin sandbox has
+ * no TextEncoder)
+ */
+const toUtf8Bytes = (text: string): string => {
+  let bytes = "";
+  for (const char of text) {
+    const code = char.codePointAt(0) || 0;
+    if (code < 0x80) {
+      bytes += char;
+    } else if (code < 0x800) {
+      bytes += String.fromCharCode(0xc0 | (code >> 6), 0x80 | (code & 63));
+    } else if (code < 0x10000) {
+      bytes += String.fromCharCode(
+        0xe0 | (code >> 12),
+        0x80 | ((code >> 6) & 63),
+        0x80 | (code & 63)
+      );
+    } else {
+      bytes += String.fromCharCode(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 63),
+        0x80 | ((code >> 6) & 63),
+        0x80 | (code & 63)
+      );
+    }
+  }
+  return bytes;
+};
+
+/**
+ * Decodes UTF-8 bytes (one character per byte) to text; invalid
+ * sequences become U+FFFD
+ */
+const fromUtf8Bytes = (bytes: string): string => {
+  let text = "";
+  let i = 0;
+
+  while (i < bytes.length) {
+    const lead = bytes.charCodeAt(i);
+    const length =
+      lead < 0x80 ? 1 : lead >= 0xf0 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc0 ? 2 : 0;
+    const continuation = bytes.slice(i + 1, i + length);
+
+    if (
+      length === 0 ||
+      continuation.length !== length - 1 ||
+      /[^\x80-\xbf]/.test(continuation)
+    ) {
+      text += "\ufffd";
+      i += 1;
+      continue;
+    }
+
+    let code = length === 1 ? lead : lead & (0xff >> (length + 1));
+    for (let j = 0; j < continuation.length; j += 1) {
+      code = (code << 6) | (continuation.charCodeAt(j) & 63);
+    }
+    text += String.fromCodePoint(code);
+    i += length;
+  }
+
+  return text;
+};
+
+/**
+ * Custom base64 encoding implementation for GitHub API compatibility.
+ * Text is encoded as UTF-8 first.
  */
 export function base64Encode(str: string): string {
   // Safety check for undefined/null input
@@ -89,7 +155,7 @@ export function base64Encode(str: string): string {
   }
 
   // Convert to string if needed
-  const inputStr = typeof str === "string" ? str : String(str);
+  const inputStr = toUtf8Bytes(typeof str === "string" ? str : String(str));
 
   const chars =
     "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
@@ -118,3 +184,29 @@ export function base64Encode(str: string): string {
 
   return result;
 }
+
+/**
+ * Decodes base64 (line breaks allowed, as returned by the GitHub contents
+ * API) as UTF-8 text, mirroring base64Encode
+ */
+export function base64Decode(encoded: string): string {
+  const chars =
+    "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+  const input = encoded.replace(/[^A-Za-z0-9+/]/g, "");
+  let result = "";
+
+  for (let i = 0; i < input.length; i += 4) {
+    const a = chars.indexOf(input.charAt(i));
+    const b = chars.indexOf(input.charAt(i + 1));
+    const c = i + 2 < input.length ? chars.indexOf(input.charAt(i + 2)) : -1;
+    const d = i + 3 < input.length ? chars.indexOf(input.charAt(i + 3)) : -1;
+
+    const bitmap = (a << 18) | (b << 12) | ((c & 63) << 6) | (d & 63);
+
+    result += String.fromCharCode((bitmap >> 16) & 255);
+    if (c !== -1) result += String.fromCharCode((bitmap >> 8) & 255);
+    if (d !== -1) result += String.fromCharCode(bitmap & 255);
+  }
+
+  return fromUtf8Bytes(result);
+}
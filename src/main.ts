@@ -5,20 +5,40 @@
 
 import "./types/figma.types";
 import {
+  ClassificationRule,
   ConversionOptions,
   ConversionResult,
   ExportOptions,
+  GitHubConfig,
+  GitHubPullRequestOptions,
+  GitHubPushMode,
+  ModeMappingSuggestion,
 } from "./types/index";
 import { convertVariablesToCSS } from "./services/variable-conversion.service";
+import { sanitizeClassificationRules } from "./services/classification-rules.service";
+import {
+  collectCollectionReferences,
+  suggestModeMapping,
+} from "./services/mode-mapping.service";
 import { exportToGitHub } from "./services/export.service";
+import { listLibraryCollections } from "./services/team-library.service";
+import { normalizeGitHubApiBaseUrl } from "./helpers/github.helper";
 import { GITHUB_CONFIG } from "./config";
 
-// Storage key for GitHub config
+// Storage keys for GitHub config and classification rules
 const GITHUB_CONFIG_STORAGE_KEY = "figma-tokens-github-config";
+const CLASSIFICATION_RULES_STORAGE_KEY = "figma-tokens-classification-rules";
+
+// User-defined classification rules, applied to every conversion
+let classificationRules: ClassificationRule[] = [];
 
 // Global flag to prevent multiple executions
 let isRunning = false;
 
+// Why the last GitHub config update was rejected; exports refuse to run
+// until a valid config arrives, so they never push with stale settings
+let githubConfigError: string | null = null;
+
 function createErrorWithCause(message: string, cause: unknown): Error {
   const error = new Error(message);
   (error as Error & { cause: unknown }).cause = cause;
@@ -28,6 +48,37 @@ function createErrorWithCause(message: string, cause: unknown): Error {
 // Cache for the last conversion result
 let lastConversionResult: ConversionResult | null = null;
 
+const isGitHubPushMode = (value: unknown): value is GitHubPushMode =>
+  value === "feature-branch" || value === "direct" || value === "sync-branch";
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === "string" && item.trim() !== "")
+    : [];
+
+/**
+ * Keeps the known pull request settings from stored or UI config
+ */
+function sanitizePullRequestOptions(
+  value: unknown
+): GitHubPullRequestOptions | undefined {
+  if (!value || typeof value !== "object") {
+    return undefined;
+  }
+
+  const options = value as Record<string, unknown>;
+  return {
+    enabled: options.enabled === true,
+    titleTemplate:
+      typeof options.titleTemplate === "string" ? options.titleTemplate : undefined,
+    bodyTemplate:
+      typeof options.bodyTemplate === "string" ? options.bodyTemplate : undefined,
+    reviewers: toStringList(options.reviewers),
+    labels: toStringList(options.labels),
+    draft: options.draft === true,
+  };
+}
+
 /**
  * Load GitHub config from persistent storage
  */
@@ -35,20 +86,32 @@ async function loadGitHubConfigFromStorage(): Promise<void> {
   try {
     const storedConfig = (await figma.clientStorage.getAsync(
       GITHUB_CONFIG_STORAGE_KEY
-    )) as
-      | {
-          owner?: string;
-          repo?: string;
-          path?: string;
-          token?: string;
-        }
-      | undefined;
+    )) as Partial<GitHubConfig> | undefined;
 
     if (storedConfig) {
       if (storedConfig.owner) GITHUB_CONFIG.owner = storedConfig.owner;
       if (storedConfig.repo) GITHUB_CONFIG.repo = storedConfig.repo;
+      if (storedConfig.branch) GITHUB_CONFIG.branch = storedConfig.branch;
       if (storedConfig.path) GITHUB_CONFIG.path = storedConfig.path;
       if (storedConfig.token) GITHUB_CONFIG.token = storedConfig.token;
+      if (storedConfig.apiBaseUrl) {
+        try {
+          GITHUB_CONFIG.apiBaseUrl = normalizeGitHubApiBaseUrl(
+            storedConfig.apiBaseUrl
+          );
+        } catch (error) {
+          console.warn("⚠️ Ignoring stored GitHub API URL:", error);
+        }
+      }
+      if (isGitHubPushMode(storedConfig.pushMode)) {
+        GITHUB_CONFIG.pushMode = storedConfig.pushMode;
+      }
+      if (storedConfig.syncBranch) {
+        GITHUB_CONFIG.syncBranch = storedConfig.syncBranch;
+      }
+      GITHUB_CONFIG.pullRequest = sanitizePullRequestOptions(
+        storedConfig.pullRequest
+      );
       console.log("✅ Loaded GitHub config from storage");
     }
   } catch (error) {
@@ -64,8 +127,13 @@ async function saveGitHubConfigToStorage(): Promise<void> {
     await figma.clientStorage.setAsync(GITHUB_CONFIG_STORAGE_KEY, {
       owner: GITHUB_CONFIG.owner,
       repo: GITHUB_CONFIG.repo,
+      branch: GITHUB_CONFIG.branch,
       path: GITHUB_CONFIG.path,
       token: GITHUB_CONFIG.token,
+      apiBaseUrl: GITHUB_CONFIG.apiBaseUrl,
+      pushMode: GITHUB_CONFIG.pushMode,
+      syncBranch: GITHUB_CONFIG.syncBranch,
+      pullRequest: GITHUB_CONFIG.pullRequest,
     });
     console.log("✅ Saved GitHub config to storage");
   } catch (error) {
@@ -73,11 +141,50 @@ async function saveGitHubConfigToStorage(): Promise<void> {
   }
 }
 
+/**
+ * Load classification rules from persistent storage
+ */
+async function loadClassificationRulesFromStorage(): Promise<void> {
+  try {
+    const storedRules = await figma.clientStorage.getAsync(
+      CLASSIFICATION_RULES_STORAGE_KEY
+    );
+    classificationRules = sanitizeClassificationRules(storedRules);
+    if (classificationRules.length > 0) {
+      console.log(
+        `✅ Loaded ${classificationRules.length} classification rule(s) from storage`
+      );
+    }
+  } catch (error) {
+    console.warn("⚠️ Could not load classification rules from storage:", error);
+  }
+}
+
+/**
+ * Save classification rules to persistent storage
+ */
+async function saveClassificationRulesToStorage(): Promise<void> {
+  try {
+    await figma.clientStorage.setAsync(
+      CLASSIFICATION_RULES_STORAGE_KEY,
+      classificationRules
+    );
+    console.log("✅ Saved classification rules to storage");
+  } catch (error) {
+    console.warn("⚠️ Could not save classification rules to storage:", error);
+  }
+}
+
 /**
  * Loads all variable collections
  */
 async function loadCollections(): Promise<{
-  collections: { id: string; name: string; variableCount: number }[];
+  collections: {
+    id: string;
+    name: string;
+    variableCount: number;
+    modes: { modeId: string; name: string }[];
+  }[];
 }> {
   try {
     const collections =
@@ -87,6 +194,7 @@ async function loadCollections(): Promise<{
       id: collection.id,
       name: collection.name,
       variableCount: collection.variableIds.length,
+      modes: collection.modes || [],
     }));
 
     return { collections: collectionsData };
@@ -137,6 +245,21 @@ async function loadVariables(collectionId: string): Promise<{
   }
 }
 
+/**
+ * Builds the mode mapping suggestion shown in the converter
+ */
+async function loadModeMappingSuggestion(): Promise<ModeMappingSuggestion> {
+  try {
+    const collections =
+      await figma.variables.getLocalVariableCollectionsAsync();
+    const references = await collectCollectionReferences(collections);
+    return suggestModeMapping(collections, references);
+  } catch (error) {
+    console.error("Error suggesting mode mapping:", error);
+    throw createErrorWithCause("Failed to suggest mode mapping", error);
+  }
+}
+
 /**
  * Wrapper for conversion with execution control
  */
@@ -151,7 +274,10 @@ async function handleConvertVariables(
   isRunning = true;
 
   try {
-    const result = await convertVariablesToCSS(options);
+    const result = await convertVariablesToCSS({
+      ...options,
+      classificationRules,
+    });
     lastConversionResult = result;
     return result;
   } finally {
@@ -167,6 +293,7 @@ async function handleExportToGitHub(
 ): Promise<{
   success: boolean;
   message: string;
+  prUrl?: string;
 }> {
   if (!lastConversionResult) {
     throw new Error("No variables to export. Please convert variables first.");
@@ -184,8 +311,9 @@ async function main() {
     console.log("📍 Editor type:", figma.editorType);
     console.log("📍 Mode:", figma.mode || "normal");
 
-    // Load saved GitHub config first
+    // Load saved GitHub config and classification rules first
     await loadGitHubConfigFromStorage();
+    await loadClassificationRulesFromStorage();
 
     // Handle Codegen event in Dev Mode (prevents timeout)
     if (figma.editorType === "dev" && figma.codegen) {
@@ -225,14 +353,10 @@ async function main() {
       variableId?: string;
       value?: unknown;
       variableType?: string;
-      githubConfig?: {
-        owner?: string;
-        repo?: string;
-        path?: string;
-        token?: string;
-      };
+      githubConfig?: Partial<GitHubConfig>;
       conversionOptions?: ConversionOptions;
       exportOptions?: ExportOptions;
+      classificationRules?: unknown;
     };
 
     const { type, collectionId } = message;
@@ -258,11 +382,22 @@ async function main() {
               data: {
                 owner: GITHUB_CONFIG.owner,
                 repo: GITHUB_CONFIG.repo,
+                branch: GITHUB_CONFIG.branch,
                 path: GITHUB_CONFIG.path,
                 token: GITHUB_CONFIG.token,
+                apiBaseUrl: GITHUB_CONFIG.apiBaseUrl,
+                pushMode: GITHUB_CONFIG.pushMode,
+                syncBranch: GITHUB_CONFIG.syncBranch,
+                pullRequest: GITHUB_CONFIG.pullRequest,
               },
             });
           }
+          figma.ui.postMessage({
+            type: "load-classification-rules",
+            data: { rules: classificationRules },
+          });
+          // The mode mapping suggestion walks every variable, so the UI
+          // requests it when the Converter tab is first opened
           break;
 
         // Collection Management
@@ -368,6 +503,8 @@ async function main() {
                 count: result.count,
                 themes: result.themes,
                 variablesByTheme: result.variablesByTheme,
+                collisions: result.collisions,
+                hidden: result.hidden,
               },
             });
           } catch (error) {
@@ -385,6 +522,16 @@ async function main() {
         case "export-github": {
           console.log("📥 Received export-github message");
 
+          if (githubConfigError) {
+            figma.ui.postMessage({
+              type: "export-error",
+              data: {
+                message: `GitHub settings were not applied: ${githubConfigError}`,
+              },
+            });
+            break;
+          }
+
           try {
             const result = await handleExportToGitHub(
               message.exportOptions || { format: "css-variables" }
@@ -392,7 +539,7 @@ async function main() {
             if (result.success) {
               figma.ui.postMessage({
                 type: "export-success",
-                data: { message: result.message },
+                data: { message: result.message, prUrl: result.prUrl },
               });
             } else {
               figma.ui.postMessage({
@@ -415,10 +562,38 @@ async function main() {
         case "update-config": {
           const cfg = message.githubConfig;
           if (cfg) {
+            if (typeof cfg.apiBaseUrl === "string") {
+              try {
+                GITHUB_CONFIG.apiBaseUrl = normalizeGitHubApiBaseUrl(
+                  cfg.apiBaseUrl
+                );
+              } catch (error) {
+                githubConfigError =
+                  error instanceof Error ? error.message : "Unknown error";
+                figma.ui.postMessage({
+                  type: "error",
+                  data: { message: githubConfigError },
+                });
+                break;
+              }
+            }
+            githubConfigError = null;
             if (cfg.owner !== undefined) GITHUB_CONFIG.owner = cfg.owner;
             if (cfg.repo !== undefined) GITHUB_CONFIG.repo = cfg.repo;
+            if (cfg.branch !== undefined) GITHUB_CONFIG.branch = cfg.branch;
             if (cfg.path !== undefined) GITHUB_CONFIG.path = cfg.path;
             if (cfg.token !== undefined) GITHUB_CONFIG.token = cfg.token;
+            if (isGitHubPushMode(cfg.pushMode)) {
+              GITHUB_CONFIG.pushMode = cfg.pushMode;
+            }
+            if (typeof cfg.syncBranch === "string") {
+              GITHUB_CONFIG.syncBranch = cfg.syncBranch;
+            }
+            if (cfg.pullRequest !== undefined) {
+              GITHUB_CONFIG.pullRequest = sanitizePullRequestOptions(
+                cfg.pullRequest
+              );
+            }
 
             // Save to persistent storage
             await saveGitHubConfigToStorage();
@@ -430,6 +605,50 @@ async function main() {
           break;
         }
 
+        case "update-classification-rules":
+          classificationRules = sanitizeClassificationRules(
+            message.classificationRules
+          );
+          await saveClassificationRulesToStorage();
+          figma.ui.postMessage({
+            type: "classification-rules-saved",
+            data: { rules: classificationRules },
+          });
+          break;
+
+        case "load-library-collections":
+          try {
+            const libraryCollections = await listLibraryCollections();
+            figma.ui.postMessage({
+              type: "library-collections-loaded",
+              data: {
+                collections: libraryCollections.map((collection) => ({
+                  key: collection.key,
+                  name: collection.name,
+                  libraryName: collection.libraryName,
+                })),
+              },
+            });
+          } catch (error) {
+            figma.ui.postMessage({
+              type: "error",
+              data: {
+                message:
+                  error instanceof Error
+                    ? error.message
+                    : "Failed to load library collections",
+              },
+            });
+          }
+          break;
+
+        case "suggest-mode-mapping":
+          figma.ui.postMessage({
+            type: "mode-mapping-suggestion",
+            data: await loadModeMappingSuggestion(),
+          });
+          break;
+
         case "close-plugin":
           figma.closePlugin();
           break;
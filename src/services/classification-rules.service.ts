@@ -0,0 +1,222 @@
+/**
+ * Classification rules service
+ * Matches user-defined rules against Figma variables before the built-in
+ * keyword heuristics run.
+ */
+
+import "../types/figma.types";
+import {
+  ClassificationRule,
+  ClassificationTransform,
+  ClassificationUnit,
+  VariableCategory,
+} from "../types/index";
+import { SCOPE_MAPPINGS } from "../constants/scope-mappings";
+
+const REGEX_PATTERN = /^\/(.+)\/([imsu]*)$/;
+
+const RESOLVED_TYPES: Variable["resolvedType"][] = [
+  "COLOR",
+  "FLOAT",
+  "STRING",
+  "BOOLEAN",
+];
+const CATEGORIES: VariableCategory[] = ["color", "measures", "fonts"];
+const UNITS: ClassificationUnit[] = [
+  "px",
+  "rem",
+  "em",
+  "unitless",
+  "percent",
+  "ms",
+];
+const TRANSFORMS: ClassificationTransform[] = [
+  "none",
+  "round",
+  "divide-by-100",
+  "multiply-by-100",
+];
+
+/** Collection names by id, so rules can match aliased variables too */
+const collectionNamesById = new Map<string, string>();
+
+/** Compiled name/collection patterns; null marks an invalid pattern */
+const compiledPatterns = new Map<string, RegExp | null>();
+
+/**
+ * Registers the collections of the current conversion run
+ */
+export const registerCollectionNames = (
+  collections: VariableCollection[]
+): void => {
+  collectionNamesById.clear();
+  collections.forEach((collection) => {
+    collectionNamesById.set(collection.id, collection.name);
+  });
+};
+
+const escapeRegExp = (value: string): string =>
+  value.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Converts a glob to an anchored, case-insensitive regex.
+ * `*` stays within one path segment, `**` crosses `/`.
+ */
+const globToRegExp = (glob: string): RegExp => {
+  let source = "";
+
+  for (let i = 0; i < glob.length; i += 1) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      source += ".*";
+      i += 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`, "i");
+};
+
+const compilePattern = (pattern: string): RegExp | null => {
+  const cached = compiledPatterns.get(pattern);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let compiled: RegExp | null;
+  try {
+    const regexMatch = pattern.match(REGEX_PATTERN);
+    compiled = regexMatch
+      ? new RegExp(regexMatch[1], regexMatch[2])
+      : globToRegExp(pattern);
+  } catch (error) {
+    console.warn(`⚠️ Invalid classification pattern "${pattern}":`, error);
+    compiled = null;
+  }
+
+  compiledPatterns.set(pattern, compiled);
+  return compiled;
+};
+
+/**
+ * Tests a glob or `/regex/` pattern; an empty pattern matches everything
+ */
+export const matchesPattern = (
+  pattern: string | undefined,
+  value: string
+): boolean => {
+  if (!pattern) {
+    return true;
+  }
+  const regex = compilePattern(pattern);
+  return regex ? regex.test(value) : false;
+};
+
+/**
+ * Finds the first rule matching the variable, in rule order
+ */
+export const findClassificationRule = (
+  variable: Variable | null | undefined,
+  rules?: ClassificationRule[]
+): ClassificationRule | null => {
+  if (!variable || !rules || rules.length === 0) {
+    return null;
+  }
+
+  const collectionName =
+    collectionNamesById.get(variable.variableCollectionId) || "";
+
+  return (
+    rules.find(
+      (rule) =>
+        matchesPattern(rule.namePattern, variable.name) &&
+        matchesPattern(rule.collection, collectionName) &&
+        (!rule.resolvedType || rule.resolvedType === variable.resolvedType) &&
+        (!rule.scope || (variable.scopes || []).includes(rule.scope))
+    ) || null
+  );
+};
+
+/**
+ * Applies a rule's numeric transform
+ */
+export const applyClassificationTransform = (
+  value: number,
+  transform?: ClassificationTransform
+): number => {
+  switch (transform) {
+    case "round":
+      return Math.round(value);
+    case "divide-by-100":
+      return value / 100;
+    case "multiply-by-100":
+      return value * 100;
+    case "none":
+    default:
+      return value;
+  }
+};
+
+const pickString = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim().length > 0
+    ? value.trim()
+    : undefined;
+
+const pickOption = <T extends string>(
+  value: unknown,
+  allowed: readonly T[]
+): T | undefined =>
+  allowed.includes(value as T) ? (value as T) : undefined;
+
+/**
+ * Validates rules coming from storage or the UI.
+ * Drops unknown values and rules that assign nothing.
+ */
+export const sanitizeClassificationRules = (
+  raw: unknown
+): ClassificationRule[] => {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  const scopes = [
+    "ALL_SCOPES",
+    ...Object.keys(SCOPE_MAPPINGS),
+  ] as VariableScope[];
+
+  return raw
+    .filter(
+      (entry): entry is Record<string, unknown> =>
+        Boolean(entry) && typeof entry === "object"
+    )
+    .map((entry) => {
+      const rule: ClassificationRule = {
+        namePattern: pickString(entry.namePattern),
+        collection: pickString(entry.collection),
+        resolvedType: pickOption(entry.resolvedType, RESOLVED_TYPES),
+        scope: pickOption(entry.scope, scopes),
+        category: pickOption(entry.category, CATEGORIES),
+        unit: pickOption(entry.unit, UNITS),
+        transform: pickOption(entry.transform, TRANSFORMS),
+        tailwindNamespace: pickString(entry.tailwindNamespace),
+      };
+
+      (Object.keys(rule) as (keyof ClassificationRule)[]).forEach((key) => {
+        if (rule[key] === undefined) {
+          delete rule[key];
+        }
+      });
+
+      return rule;
+    })
+    .filter(
+      (rule) =>
+        Boolean(rule.category || rule.unit || rule.tailwindNamespace) ||
+        (rule.transform !== undefined && rule.transform !== "none")
+    );
+};
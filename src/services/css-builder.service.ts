@@ -3,8 +3,24 @@
  * Produces :root blocks grouped into Colors, Fonts, and Measures sections.
  */
 
-import { CSSVariable, ThemeCssOutput, VariableCategory } from "../types/index";
+import {
+  CSSVariable,
+  ExportOptions,
+  ThemeCssOutput,
+  TokenPathCollision,
+  TypographyGroup,
+  BooleanStrategy,
+  VariableCategory,
+} from "../types/index";
 import { toKebabCase } from "../helpers/string.helper";
+import { buildDtcgOutput } from "./dtcg-builder.service";
+import { buildTypeScriptOutput } from "./typescript-builder.service";
+import {
+  TYPOGRAPHY_CSS_PROPERTIES,
+  TYPOGRAPHY_PROPERTY_ORDER,
+  filterTypographyGroups,
+  formatFontShorthand,
+} from "./typography.service";
 
 type GroupedVariables = Record<
   VariableCategory,
@@ -14,21 +30,37 @@ type GroupedVariablesScss = Record<
   VariableCategory,
   Array<{ name: string; scssName: string; value: string }>
 >;
-type CssOutputFormat = "css-variables" | "tailwind-theme" | "scss";
 
 const SECTION_LABELS: Record<VariableCategory, string> = {
   color: "Colors",
   fonts: "Fonts",
   measures: "Measures",
+  boolean: "Booleans",
 };
 
-const GROUP_ORDER: VariableCategory[] = ["color", "fonts", "measures"];
+const GROUP_ORDER: VariableCategory[] = ["color", "fonts", "measures", "boolean"];
+
+/**
+ * Sections to print. Booleans are rare, so their section only appears
+ * when it has tokens.
+ */
+const getVisibleGroups = (
+  grouped: Record<VariableCategory, unknown[]>,
+  includeEmptySections = true,
+): VariableCategory[] =>
+  GROUP_ORDER.filter(
+    (type) =>
+      grouped[type].length > 0 || (includeEmptySections && type !== "boolean"),
+  );
+
+const DEFAULT_THEME_SELECTOR = '[data-theme="{theme}"]';
 
 const groupVariablesByType = (variables: CSSVariable[]): GroupedVariables => {
   const grouped: GroupedVariables = {
     color: [],
     fonts: [],
     measures: [],
+    boolean: [],
   };
 
   variables.forEach((variable) => {
@@ -60,6 +92,29 @@ const formatSection = (
   return [`  /* ${SECTION_LABELS[type]} */`, lines].join("\n");
 };
 
+/**
+ * Formats one rule of grouped custom properties.
+ * Override rules omit empty sections to keep the diff readable.
+ */
+const formatCssRule = (
+  selector: string,
+  variables: CSSVariable[],
+  options: { includeEmptySections?: boolean; declarations?: string[] } = {},
+): string => {
+  const { includeEmptySections = true, declarations = [] } = options;
+  const grouped = groupVariablesByType(variables);
+  const sections = getVisibleGroups(grouped, includeEmptySections).map((type) =>
+    formatSection(type, grouped[type]),
+  );
+
+  return [
+    `${selector} {`,
+    ...declarations.map((declaration) => `  ${declaration};`),
+    ...sections,
+    "}",
+  ].join("\n");
+};
+
 const toTailwindSegment = (name: string): string => {
   const rawName = name
     .replace(/^--/, "")
@@ -92,46 +147,68 @@ const stripLeadingTokens = (segment: string, tokens: string[]): string => {
   return result || "default";
 };
 
+/**
+ * Maps a variable to its Tailwind theme name. A global/collection prefix
+ * goes after the namespace (--color-acme-primary) so utilities keep
+ * working; namespace detection only looks at the unprefixed name.
+ */
 const toTailwindThemeVariableName = (variable: CSSVariable): string => {
-  const segment = toTailwindSegment(variable.name);
+  const prefix =
+    variable.namePrefix && variable.name.startsWith(variable.namePrefix)
+      ? variable.namePrefix
+      : "";
+  const segment = toTailwindSegment(variable.name.slice(prefix.length));
+  const prefixSegment = toTailwindSegment(prefix);
+  const themeName = (namespace: string, name: string): string =>
+    `--${[namespace, prefixSegment, name].filter(Boolean).join("-")}`;
+
+  if (variable.tailwindNamespace) {
+    const namespace = toTailwindSegment(variable.tailwindNamespace);
+    return themeName(namespace, stripLeadingTokens(segment, [namespace]));
+  }
 
   if (variable.type === "color") {
-    return `--color-${stripLeadingTokens(segment, ["color"])}`;
+    return themeName("color", stripLeadingTokens(segment, ["color"]));
+  }
+
+  // Booleans have no Tailwind namespace, so they stay plain variables
+  if (variable.type === "boolean") {
+    return themeName("", segment);
   }
 
   if (variable.type === "fonts") {
     if (segment.includes("weight")) {
-      return `--font-weight-${stripLeadingTokens(segment, [
+      return themeName("font-weight", stripLeadingTokens(segment, [
         "font-weight",
         "font",
         "weight",
-      ])}`;
+      ]));
     }
 
     if (segment.includes("size") || segment.startsWith("text-")) {
-      return `--text-${stripLeadingTokens(segment, [
+      return themeName("text", stripLeadingTokens(segment, [
         "font-size",
         "font",
         "size",
         "text",
-      ])}`;
+      ]));
     }
 
     if (segment.includes("line-height") || segment.includes("leading")) {
-      return `--leading-${stripLeadingTokens(segment, [
+      return themeName("leading", stripLeadingTokens(segment, [
         "line-height",
         "leading",
-      ])}`;
+      ]));
     }
 
     if (segment.includes("letter-spacing") || segment.includes("tracking")) {
-      return `--tracking-${stripLeadingTokens(segment, [
+      return themeName("tracking", stripLeadingTokens(segment, [
         "letter-spacing",
         "tracking",
-      ])}`;
+      ]));
     }
 
-    return `--font-${stripLeadingTokens(segment, ["font-family", "font"])}`;
+    return themeName("font", stripLeadingTokens(segment, ["font-family", "font"]));
   }
 
   if (
@@ -139,43 +216,43 @@ const toTailwindThemeVariableName = (variable: CSSVariable): string => {
     segment.includes("rounded") ||
     segment.includes("corner")
   ) {
-    return `--radius-${stripLeadingTokens(segment, [
+    return themeName("radius", stripLeadingTokens(segment, [
       "border-radius",
       "radius",
       "rounded",
       "corner",
-    ])}`;
+    ]));
   }
 
   if (segment.includes("shadow")) {
-    return `--shadow-${stripLeadingTokens(segment, ["box-shadow", "shadow"])}`;
+    return themeName("shadow", stripLeadingTokens(segment, ["box-shadow", "shadow"]));
   }
 
   if (segment.includes("blur")) {
-    return `--blur-${stripLeadingTokens(segment, ["blur"])}`;
+    return themeName("blur", stripLeadingTokens(segment, ["blur"]));
   }
 
   if (segment.includes("opacity") || segment.includes("alpha")) {
-    return `--opacity-${stripLeadingTokens(segment, ["opacity", "alpha"])}`;
+    return themeName("opacity", stripLeadingTokens(segment, ["opacity", "alpha"]));
   }
 
   if (segment.includes("z-index") || segment.includes("zindex")) {
-    return `--z-${stripLeadingTokens(segment, ["z-index", "zindex"])}`;
+    return themeName("z", stripLeadingTokens(segment, ["z-index", "zindex"]));
   }
 
   if (segment.includes("duration") || segment.includes("timing")) {
-    return `--duration-${stripLeadingTokens(segment, ["duration", "timing"])}`;
+    return themeName("duration", stripLeadingTokens(segment, ["duration", "timing"]));
   }
 
   if (segment.includes("ease")) {
-    return `--ease-${stripLeadingTokens(segment, ["ease"])}`;
+    return themeName("ease", stripLeadingTokens(segment, ["ease"]));
   }
 
   if (segment.includes("animate") || segment.includes("animation")) {
-    return `--animate-${stripLeadingTokens(segment, ["animate", "animation"])}`;
+    return themeName("animate", stripLeadingTokens(segment, ["animate", "animation"]));
   }
 
-  return `--spacing-${stripLeadingTokens(segment, [
+  return themeName("spacing", stripLeadingTokens(segment, [
     "spacing",
     "space",
     "gap",
@@ -186,7 +263,7 @@ const toTailwindThemeVariableName = (variable: CSSVariable): string => {
     "width",
     "height",
     "dimension",
-  ])}`;
+  ]));
 };
 
 const groupTailwindVariablesByType = (
@@ -196,6 +273,7 @@ const groupTailwindVariablesByType = (
     color: [],
     fonts: [],
     measures: [],
+    boolean: [],
   };
 
   variables.forEach((variable) => {
@@ -230,6 +308,7 @@ const groupScssVariablesByType = (
     color: [],
     fonts: [],
     measures: [],
+    boolean: [],
   };
 
   variables.forEach((variable) => {
@@ -262,26 +341,481 @@ const formatScssSection = (
   return [`/* ${SECTION_LABELS[type]} */`, lines].join("\n");
 };
 
+/**
+ * `font` shorthand custom properties, listed in the Fonts section
+ */
+const toTypographyVariables = (groups: TypographyGroup[]): CSSVariable[] =>
+  groups.map((group) => ({
+    name: group.name,
+    value: formatFontShorthand(group),
+    type: "fonts",
+  }));
+
+/**
+ * `.text-*` utility classes. Letter spacing isn't part of the `font`
+ * shorthand, so it is set separately.
+ */
+const formatTypographyUtilities = (groups: TypographyGroup[]): string[] =>
+  groups.map((group) =>
+    [
+      `.text-${group.slug} {`,
+      `  font: var(${group.name});`,
+      ...(group.members.letterSpacing
+        ? [`  letter-spacing: var(${group.members.letterSpacing});`]
+        : []),
+      "}",
+    ].join("\n"),
+  );
+
+/**
+ * SCSS mixins setting each typography longhand from its Sass variable
+ */
+const formatTypographyMixins = (groups: TypographyGroup[]): string[] =>
+  groups.map((group) =>
+    [
+      `@mixin text-${group.slug} {`,
+      ...TYPOGRAPHY_PROPERTY_ORDER.filter(
+        (property) => group.members[property],
+      ).map(
+        (property) =>
+          `  ${TYPOGRAPHY_CSS_PROPERTIES[property]}: ${toScssVariableName(
+            group.members[property] || "",
+          )};`,
+      ),
+      "}",
+    ].join("\n"),
+  );
+
+/**
+ * Tailwind v4 `--text-*` font sizes with their line-height, font-weight
+ * and letter-spacing sub-properties, pointing at the renamed theme variables
+ */
+const formatTailwindTypography = (
+  groups: TypographyGroup[],
+  variables: CSSVariable[],
+): string[] => {
+  const tailwindNames = new Map(
+    variables.map((variable) => [
+      variable.name,
+      toTailwindThemeVariableName(variable),
+    ]),
+  );
+  const reference = (name: string) =>
+    `var(${tailwindNames.get(name) || name})`;
+
+  return groups.reduce<string[]>((lines, group) => {
+    const { fontSize, lineHeight, fontWeight, letterSpacing } = group.members;
+    const prefix = `--text-${group.slug}`;
+    return lines.concat([
+      `  ${prefix}: ${reference(fontSize || "")};`,
+      ...(lineHeight
+        ? [`  ${prefix}--line-height: ${reference(lineHeight)};`]
+        : []),
+      ...(fontWeight
+        ? [`  ${prefix}--font-weight: ${reference(fontWeight)};`]
+        : []),
+      ...(letterSpacing
+        ? [`  ${prefix}--letter-spacing: ${reference(letterSpacing)};`]
+        : []),
+    ]);
+  }, []);
+};
+
 /**
  * Builds a CSS string with :root containing grouped variables.
+ * Typography groups add `font` shorthand properties and, optionally,
+ * `.text-*` utility classes.
  */
-export const buildCssOutput = (cssVariables: CSSVariable[] = []): string => {
-  const grouped = groupVariablesByType(cssVariables);
+export const buildCssOutput = (
+  cssVariables: CSSVariable[] = [],
+  typography: TypographyGroup[] = [],
+  typographyUtilities = false,
+): string => {
   const exportTimestamp = new Date().toISOString();
+  const groups = filterTypographyGroups(typography, cssVariables);
+  const utilities = typographyUtilities
+    ? formatTypographyUtilities(groups)
+    : [];
 
-  const sections = GROUP_ORDER.map((type) =>
-    formatSection(type, grouped[type]),
+  return [
+    "/*",
+    " * Design tokens exported from Figma",
+    ` * Exported at: ${exportTimestamp}`,
+    " * Format: Raw CSS variables grouped by kind",
+    " */",
+    [
+      formatCssRule(":root", cssVariables.concat(toTypographyVariables(groups))),
+      ...utilities,
+    ].join("\n\n"),
+    "",
+  ].join("\n");
+};
+
+/**
+ * Finds themes whose tokens appear in no other theme, such as the single
+ * mode of a primitives collection. They apply to every theme, so the
+ * combined layout keeps them in :root instead of a theme selector.
+ */
+const findSharedThemes = (
+  variablesByTheme: Record<string, CSSVariable[]>,
+): string[] => {
+  const themes = Object.keys(variablesByTheme);
+  if (themes.length < 2) {
+    return [];
+  }
+
+  const themeCountByName = new Map<string, number>();
+  themes.forEach((theme) => {
+    (variablesByTheme[theme] || []).forEach((variable) => {
+      themeCountByName.set(
+        variable.name,
+        (themeCountByName.get(variable.name) || 0) + 1,
+      );
+    });
+  });
+
+  return themes.filter((theme) =>
+    (variablesByTheme[theme] || []).every(
+      (variable) => themeCountByName.get(variable.name) === 1,
+    ),
+  );
+};
+
+/**
+ * Folds the dark value of every color token into `light-dark()` so the
+ * browser follows the OS color scheme without JavaScript.
+ */
+const applyLightDarkColors = (
+  lightVariables: CSSVariable[],
+  darkVariables: CSSVariable[],
+): CSSVariable[] => {
+  const darkColors = new Map(
+    darkVariables
+      .filter((variable) => variable.type === "color")
+      .map((variable) => [variable.name, variable.value]),
+  );
+
+  return lightVariables.map((variable) => {
+    const darkValue = darkColors.get(variable.name);
+    if (
+      variable.type !== "color" ||
+      darkValue === undefined ||
+      darkValue === variable.value
+    ) {
+      return variable;
+    }
+    return { ...variable, value: `light-dark(${variable.value}, ${darkValue})` };
+  });
+};
+
+type CombinedLayoutOptions = Pick<
+  ExportOptions,
+  "defaultTheme" | "themeSelector" | "colorScheme" | "modeConditions"
+>;
+
+const collectAllVariables = (
+  variablesByTheme: Record<string, CSSVariable[]>,
+): CSSVariable[] =>
+  Object.keys(variablesByTheme).reduce<CSSVariable[]>(
+    (all, theme) => all.concat(variablesByTheme[theme] || []),
+    [],
+  );
+
+const getCollectionKey = (variable: CSSVariable): string =>
+  variable.source?.collection || "";
+
+/**
+ * Picks the theme each collection writes to :root: the light theme of a
+ * `colorScheme` pair or the chosen default theme when the collection has
+ * it, else the theme of the collection's default mode, else its first
+ * theme. Tokens without a source count as one collection.
+ */
+const findDefaultThemes = (
+  variablesByTheme: Record<string, CSSVariable[]>,
+  themes: string[],
+  options: CombinedLayoutOptions,
+): Map<string, string> => {
+  const themesByCollection = new Map<string, string[]>();
+  const defaultModeThemes = new Map<string, string>();
+  themes.forEach((theme) => {
+    (variablesByTheme[theme] || []).forEach((variable) => {
+      const collection = getCollectionKey(variable);
+      const collectionThemes = themesByCollection.get(collection) || [];
+      if (!collectionThemes.includes(theme)) {
+        themesByCollection.set(collection, collectionThemes.concat(theme));
+      }
+      if (
+        variable.source?.defaultMode !== undefined &&
+        variable.source.mode === variable.source.defaultMode &&
+        !defaultModeThemes.has(collection)
+      ) {
+        defaultModeThemes.set(collection, theme);
+      }
+    });
+  });
+
+  const preferredThemes = [options.colorScheme?.light, options.defaultTheme];
+  const defaultThemes = new Map<string, string>();
+  themesByCollection.forEach((collectionThemes, collection) => {
+    defaultThemes.set(
+      collection,
+      preferredThemes.find(
+        (theme): theme is string => !!theme && collectionThemes.includes(theme),
+      ) ||
+        defaultModeThemes.get(collection) ||
+        collectionThemes[0],
+    );
+  });
+  return defaultThemes;
+};
+
+/** Wraps bare media features such as `min-width: 768px` in parentheses */
+const toMediaQuery = (condition: string): string =>
+  /^\(|^(not|only|all|screen|print)\b/i.test(condition)
+    ? condition
+    : `(${condition})`;
+
+const indentBlock = (block: string): string =>
+  block
+    .split("\n")
+    .map((line) => (line ? `  ${line}` : line))
+    .join("\n");
+
+/**
+ * Builds the rules shared by the single-file layouts: each collection's
+ * default theme in :root (see findDefaultThemes), every other theme in its
+ * own selector, or in an `@media` block when the mode is mapped to a media
+ * condition. Override rules contain only the tokens whose value differs
+ * from their collection's default, so a Light/Dark collection and a
+ * Mobile/Desktop collection both get base values in :root.
+ *
+ * With a `colorScheme` pair the light theme becomes the default, color
+ * tokens use `light-dark()` and only non-color tokens remain in the dark
+ * theme's block. Typography shorthands only reference other tokens, so
+ * they live in :root.
+ */
+const buildCombinedRules = (
+  variablesByTheme: Record<string, CSSVariable[]>,
+  options: CombinedLayoutOptions,
+  typography: TypographyGroup[] = [],
+): { rules: string[]; description: string } => {
+  const themes = Object.keys(variablesByTheme);
+  const sharedThemes = findSharedThemes(variablesByTheme);
+  const themedThemes = themes.filter((theme) => !sharedThemes.includes(theme));
+  const colorScheme = options.colorScheme;
+  const modeConditions = options.modeConditions || {};
+
+  if (colorScheme) {
+    const missing = [colorScheme.light, colorScheme.dark].filter(
+      (theme) => !themedThemes.includes(theme),
+    );
+    if (missing.length || colorScheme.light === colorScheme.dark) {
+      throw new Error(
+        `light-dark() output needs two different theme modes marked as light and dark. Not found: ${
+          missing.join(", ") || colorScheme.light
+        }`,
+      );
+    }
+  }
+
+  const defaultThemes = findDefaultThemes(
+    variablesByTheme,
+    themedThemes,
+    options,
+  );
+  const isDefaultIn = (theme: string) => (variable: CSSVariable) =>
+    defaultThemes.get(getCollectionKey(variable)) === theme;
+  defaultThemes.forEach((theme, collection) => {
+    if ((modeConditions[theme] || "").trim()) {
+      console.warn(
+        `⚠️ ${theme} is the default mode of ${
+          collection || "its collection"
+        }, so its tokens stay in :root and its media condition is ignored`,
+      );
+    }
+  });
+  // Colors of collections whose default is the light theme fold their dark
+  // value into light-dark()
+  const isLightDarkColor = (variable: CSSVariable) =>
+    !!colorScheme &&
+    variable.type === "color" &&
+    isDefaultIn(colorScheme.light)(variable);
+  const selectorTemplate = options.themeSelector || DEFAULT_THEME_SELECTOR;
+  const toSelector = (theme: string) =>
+    selectorTemplate.replace(/\{theme\}/g, toKebabCase(theme));
+
+  const sharedVariables = sharedThemes.reduce<CSSVariable[]>(
+    (all, theme) => all.concat(variablesByTheme[theme] || []),
+    [],
+  );
+  const defaultVariables = themedThemes.reduce<CSSVariable[]>(
+    (all, theme) =>
+      all.concat((variablesByTheme[theme] || []).filter(isDefaultIn(theme))),
+    [],
+  );
+  const rootVariables = sharedVariables.concat(
+    colorScheme
+      ? applyLightDarkColors(
+          defaultVariables,
+          (variablesByTheme[colorScheme.dark] || []).filter(isLightDarkColor),
+        )
+      : defaultVariables,
+  );
+  const defaultValues = new Map(
+    rootVariables.map((variable) => [variable.name, variable.value]),
+  );
+
+  // Media blocks can match together (e.g. tablet and desktop breakpoints),
+  // so a later block must also restate tokens an earlier one overrode.
+  const mediaOverriddenNames = new Set<string>();
+
+  const overrideRules = themedThemes
+    .map((theme) => {
+      const condition = (modeConditions[theme] || "").trim();
+      const isDarkTheme = !!colorScheme && theme === colorScheme.dark;
+      const isDefault = isDefaultIn(theme);
+      const overrides = (variablesByTheme[theme] || []).filter(
+        (variable) =>
+          !isDefault(variable) &&
+          !(isDarkTheme && isLightDarkColor(variable)) &&
+          (defaultValues.get(variable.name) !== variable.value ||
+            (!!condition && mediaOverriddenNames.has(variable.name))),
+      );
+
+      if (condition) {
+        overrides.forEach((variable) => mediaOverriddenNames.add(variable.name));
+        if (!overrides.length) {
+          return null;
+        }
+        return [
+          `@media ${toMediaQuery(condition)} {`,
+          indentBlock(
+            formatCssRule(":root", overrides, { includeEmptySections: false }),
+          ),
+          "}",
+        ].join("\n");
+      }
+
+      if (!overrides.length && !isDarkTheme) {
+        return null;
+      }
+      return formatCssRule(toSelector(theme), overrides, {
+        includeEmptySections: false,
+        declarations: isDarkTheme ? ["color-scheme: dark"] : [],
+      });
+    })
+    .filter((rule): rule is string => rule !== null);
+
+  const rootWithTypography = rootVariables.concat(
+    toTypographyVariables(typography),
   );
+  const rootRules = colorScheme
+    ? [
+        formatCssRule(":root", rootWithTypography, {
+          declarations: ["color-scheme: light dark"],
+        }),
+        formatCssRule(toSelector(colorScheme.light), [], {
+          includeEmptySections: false,
+          declarations: ["color-scheme: light"],
+        }),
+      ]
+    : [formatCssRule(":root", rootWithTypography)];
+
+  return {
+    rules: [...rootRules, ...overrideRules],
+    description: colorScheme
+      ? `light-dark() colors (light: ${colorScheme.light}, dark: ${colorScheme.dark})`
+      : `theme selectors (default: ${
+          Array.from(new Set(defaultThemes.values())).join(", ") || "none"
+        })`,
+  };
+};
+
+/**
+ * Builds one CSS file for all themes (see buildCombinedRules).
+ */
+export const buildCombinedCssOutput = (
+  variablesByTheme: Record<string, CSSVariable[]>,
+  options: CombinedLayoutOptions = {},
+  typography: TypographyGroup[] = [],
+  typographyUtilities = false,
+): string => {
+  const groups = filterTypographyGroups(
+    typography,
+    collectAllVariables(variablesByTheme),
+  );
+  const { rules, description } = buildCombinedRules(
+    variablesByTheme,
+    options,
+    groups,
+  );
+  const utilities = typographyUtilities
+    ? formatTypographyUtilities(groups)
+    : [];
+  const exportTimestamp = new Date().toISOString();
 
   return [
     "/*",
     " * Design tokens exported from Figma",
     ` * Exported at: ${exportTimestamp}`,
-    " * Format: Raw CSS variables grouped by kind",
+    ` * Format: CSS variables with ${description}`,
     " */",
-    ":root {",
-    sections.join("\n"),
-    "}",
+    [...rules, ...utilities].join("\n\n"),
+    "",
+  ].join("\n");
+};
+
+/**
+ * Builds one SCSS file for all themes. Sass variables are resolved at
+ * compile time, so they point at custom properties that carry the themed
+ * values (see buildCombinedRules).
+ */
+export const buildCombinedScssOutput = (
+  variablesByTheme: Record<string, CSSVariable[]>,
+  options: CombinedLayoutOptions = {},
+  typography: TypographyGroup[] = [],
+): string => {
+  const groups = filterTypographyGroups(
+    typography,
+    collectAllVariables(variablesByTheme),
+  );
+  const { rules, description } = buildCombinedRules(
+    variablesByTheme,
+    options,
+    groups,
+  );
+  const mixins = formatTypographyMixins(groups);
+  const exportTimestamp = new Date().toISOString();
+
+  const uniqueVariables = new Map<string, CSSVariable>();
+  Object.keys(variablesByTheme).forEach((theme) => {
+    (variablesByTheme[theme] || []).forEach((variable) => {
+      if (!uniqueVariables.has(variable.name)) {
+        uniqueVariables.set(variable.name, {
+          ...variable,
+          value: `var(${variable.name})`,
+        });
+      }
+    });
+  });
+
+  const grouped = groupScssVariablesByType(Array.from(uniqueVariables.values()));
+  const sections = getVisibleGroups(grouped).map((type) =>
+    formatScssSection(type, grouped[type]),
+  );
+  if (mixins.length) {
+    sections.push(["/* Typography */", mixins.join("\n\n")].join("\n"));
+  }
+
+  return [
+    "/*",
+    " * Design tokens exported from Figma",
+    ` * Exported at: ${exportTimestamp}`,
+    ` * Format: SCSS variables backed by CSS variables with ${description}`,
+    " */",
+    sections.join("\n\n"),
+    "",
+    rules.join("\n\n"),
     "",
   ].join("\n");
 };
@@ -291,13 +825,21 @@ export const buildCssOutput = (cssVariables: CSSVariable[] = []): string => {
  */
 export const buildTailwindThemeOutput = (
   cssVariables: CSSVariable[] = [],
+  typography: TypographyGroup[] = [],
 ): string => {
   const grouped = groupTailwindVariablesByType(cssVariables);
   const exportTimestamp = new Date().toISOString();
 
-  const sections = GROUP_ORDER.map((type) =>
+  const sections = getVisibleGroups(grouped).map((type) =>
     formatSection(type, grouped[type]),
   );
+  const typographyLines = formatTailwindTypography(
+    filterTypographyGroups(typography, cssVariables),
+    cssVariables,
+  );
+  if (typographyLines.length) {
+    sections.push(["  /* Typography */", ...typographyLines].join("\n"));
+  }
 
   return [
     "/*",
@@ -317,13 +859,22 @@ export const buildTailwindThemeOutput = (
 /**
  * Builds an SCSS variables file.
  */
-export const buildScssOutput = (cssVariables: CSSVariable[] = []): string => {
+export const buildScssOutput = (
+  cssVariables: CSSVariable[] = [],
+  typography: TypographyGroup[] = [],
+): string => {
   const grouped = groupScssVariablesByType(cssVariables);
   const exportTimestamp = new Date().toISOString();
 
-  const sections = GROUP_ORDER.map((type) =>
+  const sections = getVisibleGroups(grouped).map((type) =>
     formatScssSection(type, grouped[type]),
   );
+  const mixins = formatTypographyMixins(
+    filterTypographyGroups(typography, cssVariables),
+  );
+  if (mixins.length) {
+    sections.push(["/* Typography */", mixins.join("\n\n")].join("\n"));
+  }
 
   return [
     "/*",
@@ -336,15 +887,113 @@ export const buildScssOutput = (cssVariables: CSSVariable[] = []): string => {
   ].join("\n");
 };
 
+const isJsFormat = (format: ExportOptions["format"]): boolean =>
+  format === "dtcg-json" || format === "typescript";
+
+/**
+ * Writes boolean tokens for the chosen strategy. JS/JSON formats keep
+ * `true`/`false` unless booleans are skipped; CSS-based formats get `1`/`0`
+ * or the space toggle (` ` when on, `initial` when off), or drop them for
+ * `js-only`. Aliases stay `var()` references.
+ */
+const applyBooleanStrategy = (
+  variables: CSSVariable[],
+  format: ExportOptions["format"],
+  strategy: BooleanStrategy = "numeric",
+): CSSVariable[] => {
+  if (strategy === "skip" || (strategy === "js-only" && !isJsFormat(format))) {
+    return variables.filter((variable) => variable.type !== "boolean");
+  }
+
+  if (isJsFormat(format)) {
+    return variables;
+  }
+
+  // Sass variables can't hold an empty value, so SCSS variables use 1/0
+  const useSpaceToggle = strategy === "space-toggle" && format !== "scss";
+
+  return variables.map((variable) => {
+    if (
+      variable.type !== "boolean" ||
+      (variable.value !== "true" && variable.value !== "false")
+    ) {
+      return variable;
+    }
+    const enabled = variable.value === "true";
+    return {
+      ...variable,
+      value: useSpaceToggle
+        ? enabled
+          ? " "
+          : "initial"
+        : enabled
+          ? "1"
+          : "0",
+    };
+  });
+};
+
 /**
  * Builds theme-aware CSS output with sanitized theme names as keys.
+ * The combined layout returns a single file under the empty theme name.
+ * DTCG and TypeScript tokens numbered because their path was taken are
+ * reported through `onPathCollision`.
  */
 export const buildThemeAwareCssOutput = (
-  variablesByTheme: Record<string, CSSVariable[]>,
-  format: CssOutputFormat = "css-variables",
+  themeVariables: Record<string, CSSVariable[]>,
+  options: ExportOptions = { format: "css-variables" },
+  typography: TypographyGroup[] = [],
+  onPathCollision?: (collision: TokenPathCollision) => void,
 ): ThemeCssOutput => {
+  const { format } = options;
+
+  const supportsSingleFile = format === "css-variables" || format === "scss";
+  const isSingleFile =
+    supportsSingleFile &&
+    (options.themeLayout === "combined" || options.themeLayout === "light-dark");
+
+  const variablesByTheme = Object.keys(themeVariables).reduce<
+    Record<string, CSSVariable[]>
+  >((result, theme) => {
+    result[theme] = applyBooleanStrategy(
+      themeVariables[theme] || [],
+      // Single-file SCSS keeps values in custom properties, where the space
+      // toggle works
+      isSingleFile ? "css-variables" : format,
+      options.booleanStrategy,
+    );
+    return result;
+  }, {});
+
+  if (isSingleFile) {
+    if (options.themeLayout === "light-dark" && !options.colorScheme) {
+      throw new Error("light-dark() output requires light and dark theme modes");
+    }
+
+    const layoutOptions = {
+      defaultTheme: options.defaultTheme,
+      themeSelector: options.themeSelector,
+      colorScheme:
+        options.themeLayout === "light-dark" ? options.colorScheme : undefined,
+      modeConditions: options.modeConditions,
+    };
+
+    return {
+      "":
+        format === "scss"
+          ? buildCombinedScssOutput(variablesByTheme, layoutOptions, typography)
+          : buildCombinedCssOutput(
+              variablesByTheme,
+              layoutOptions,
+              typography,
+              options.typographyUtilities,
+            ),
+    };
+  }
+
   const themes = Object.keys(variablesByTheme);
   const result: ThemeCssOutput = {};
+  const allVariables = collectAllVariables(variablesByTheme);
 
   themes.forEach((theme) => {
     let themeName = themes.length === 1 ? "theme" : toKebabCase(theme);
@@ -357,10 +1006,18 @@ export const buildThemeAwareCssOutput = (
     const variables = variablesByTheme[theme] || [];
     result[themeName] =
       format === "tailwind-theme"
-        ? buildTailwindThemeOutput(variables)
+        ? buildTailwindThemeOutput(variables, typography)
         : format === "scss"
-          ? buildScssOutput(variables)
-          : buildCssOutput(variables);
+          ? buildScssOutput(variables, typography)
+          : format === "dtcg-json"
+            ? buildDtcgOutput(variables, allVariables, typography, onPathCollision)
+            : format === "typescript"
+              ? buildTypeScriptOutput(variables, allVariables, onPathCollision)
+              : buildCssOutput(
+                  variables,
+                  typography,
+                  options.typographyUtilities,
+                );
   });
 
   return result;
@@ -7,36 +7,38 @@ import {
   safeColorConversion,
   safeFloatConversion,
   safeStringConversion,
+  safeBooleanConversion,
   resolveAliasToRawValue,
+  getFallbackColor,
+  toFluidClamp,
 } from "./value-converter.service";
-import { generateCSSVariableName } from "./variable-naming.service";
-import { FALLBACK_OKLCH_COLOR } from "../constants/conversion.constants";
-import { TokenNamingConvention } from "../types/index";
+import { resolveMappedMode } from "./mode-mapping.service";
+import { getTextStyleFontSizeId } from "./typography.service";
+import { AliasStrategy, ConversionOptions } from "../types/index";
+import { BASE_FONT_SIZE } from "../constants/conversion.constants";
+
+type CollectionMode = VariableCollection["modes"][number];
 
 /**
  * Walk the alias chain forward until we hit a variable that will actually
- * be emitted in the export (i.e. its id is in `exportedIds`), and return
- * `var(--<its-name>)`. If we exhaust the chain without finding an
- * exported target — typical for "orphan" Figma variables that exist by
- * id but aren't members of any collection's `variableIds` — return
- * `null` so the caller falls back to raw value resolution. This keeps
- * inheritance intact when possible without emitting dangling references.
+ * be emitted in the export (i.e. its id is in `exportedNames`), and return
+ * `var(--<its-name>)` using its collision-free name. If we exhaust the
+ * chain without finding an exported target — typical for "orphan" Figma
+ * variables that exist by id but aren't members of any collection's
+ * `variableIds` — return `null` so the caller falls back to raw value
+ * resolution. This keeps inheritance intact when possible without
+ * emitting dangling references.
  */
 const generateAliasReference = async (
   aliasedVariable: Variable,
-  namingConvention: TokenNamingConvention,
-  exportedIds: Set<string>
+  exportedNames: Map<string, string>
 ): Promise<string | null> => {
   let cur: Variable | null = aliasedVariable;
   // Cap to a small depth so a cycle (shouldn't happen in Figma, but defend
   // against it) can't hang the exporter.
   for (let depth = 0; depth < 16 && cur; depth += 1) {
-    if (exportedIds.has(cur.id)) {
-      const cssName = generateCSSVariableName(
-        "",
-        cur.name,
-        namingConvention
-      );
+    const cssName = exportedNames.get(cur.id);
+    if (cssName) {
       return `var(${cssName})`;
     }
     // Cur is an orphan — try to follow ITS alias to a deeper target.
@@ -58,65 +60,119 @@ const generateAliasReference = async (
   return null;
 };
 
+const isVariableAlias = (value: unknown): value is VariableAlias =>
+  typeof value === "object" &&
+  value !== null &&
+  "type" in value &&
+  (value as { type: string }).type === "VARIABLE_ALIAS";
+
+/**
+ * Writes an alias according to the alias strategy of the variable's
+ * collection (falling back to the global one):
+ * - `reference`: `var(--target)`, inlining only orphan chains
+ * - `inline`: the resolved value
+ * - `reference-with-fallback`: `var(--target, <resolved value>)`
+ * - `same-collection`: references within the collection, inlines across
+ * Returns null when the alias target is missing.
+ */
+const convertAliasValue = async (
+  variable: Variable,
+  alias: VariableAlias,
+  targetModeId: string,
+  collectionName: string,
+  modeName: string | undefined,
+  options: ConversionOptions,
+  exportedNames: Map<string, string>
+): Promise<string | null> => {
+  const aliasedVariable = await figma.variables.getVariableByIdAsync(alias.id);
+  if (!aliasedVariable) {
+    console.error(
+      `❌ Alias target missing for ${variable.name} (alias ID: ${alias.id})`
+    );
+    return null;
+  }
+
+  const strategy: AliasStrategy =
+    options.collectionAliasStrategies?.[collectionName] ||
+    options.aliasStrategy ||
+    "reference";
+  const useReference =
+    strategy === "reference" ||
+    strategy === "reference-with-fallback" ||
+    (strategy === "same-collection" &&
+      aliasedVariable.variableCollectionId === variable.variableCollectionId);
+
+  const ref = useReference
+    ? await generateAliasReference(aliasedVariable, exportedNames)
+    : null;
+  if (ref && strategy !== "reference-with-fallback") {
+    console.log(`🔗 Alias ref for ${variable.name} → ${ref}`);
+    return ref;
+  }
+
+  const resolved = await resolveAliasToRawValue(
+    aliasedVariable,
+    targetModeId,
+    collectionName,
+    modeName,
+    options
+  );
+
+  if (ref) {
+    const withFallback = resolved ? `${ref.slice(0, -1)}, ${resolved})` : ref;
+    console.log(`🔗 Alias ref for ${variable.name} → ${withFallback}`);
+    return withFallback;
+  }
+
+  if (resolved) {
+    // Chain led only through orphan, hidden or excluded variables (no
+    // exported target), or the strategy inlines this alias
+    if (useReference) {
+      console.warn(
+        `⚠️ Alias chain for ${variable.name} has no exported target — inlined raw value`
+      );
+    }
+    return resolved;
+  }
+
+  console.error(
+    `❌ Could not resolve alias ${aliasedVariable.name} for ${variable.name}`
+  );
+  return null;
+};
+
 /**
- * Converts color variables to OKLCH format
+ * Converts color variables to the configured color format
  */
 const convertColorValue = async (
   variable: Variable,
   modeId: string | undefined,
   collectionName: string,
   modeName: string | undefined,
-  namingConvention: TokenNamingConvention,
-  exportedIds: Set<string>
+  options: ConversionOptions,
+  exportedNames: Map<string, string>
 ): Promise<string> => {
   const valuesByMode = variable.valuesByMode || {};
   if (Object.keys(valuesByMode).length === 0) {
     console.warn(`⚠️ No color modes found for ${variable.name}`);
-    return FALLBACK_OKLCH_COLOR;
+    return getFallbackColor(options);
   }
 
   const targetModeId = modeId || Object.keys(valuesByMode)[0];
   const rawValue = valuesByMode[targetModeId];
 
   // Check if it's an alias
-  if (
-    typeof rawValue === "object" &&
-    rawValue !== null &&
-    "type" in rawValue &&
-    (rawValue as { type: string }).type === "VARIABLE_ALIAS"
-  ) {
-    const aliasId = (rawValue as VariableAlias).id;
-    const aliasedVariable = await figma.variables.getVariableByIdAsync(aliasId);
-    if (aliasedVariable) {
-      const ref = await generateAliasReference(
-        aliasedVariable,
-        namingConvention,
-        exportedIds
-      );
-      if (ref) {
-        console.log(`🔗 Alias ref for ${variable.name} → ${ref}`);
-        return ref;
-      }
-      // Chain led only through orphan variables (no exported target).
-      // Fall back to recursive raw resolution so we still produce a
-      // valid value instead of a dangling reference.
-      const resolved = await resolveAliasToRawValue(
-        aliasedVariable,
-        targetModeId,
-        collectionName,
-        modeName
-      );
-      if (resolved) {
-        console.warn(
-          `⚠️ Orphan alias chain for ${variable.name} — inlined raw value`
-        );
-        return resolved;
-      }
-    }
-    console.error(
-      `❌ Alias target missing for ${variable.name} (alias ID: ${aliasId})`
+  if (isVariableAlias(rawValue)) {
+    const aliasValue = await convertAliasValue(
+      variable,
+      rawValue,
+      targetModeId,
+      collectionName,
+      modeName,
+      options,
+      exportedNames
     );
-    return FALLBACK_OKLCH_COLOR;
+    return aliasValue ?? getFallbackColor(options);
   }
 
   const colorValue = rawValue as RGB | RGBA;
@@ -125,10 +181,53 @@ const convertColorValue = async (
     console.warn(
       `⚠️ No color value found for mode ${targetModeId} in ${variable.name}`
     );
-    return FALLBACK_OKLCH_COLOR;
+    return getFallbackColor(options);
   }
 
-  return safeColorConversion(colorValue, variable.name);
+  return safeColorConversion(colorValue, variable.name, options);
+};
+
+/**
+ * Resolves the px font size of a letter spacing variable's text style in
+ * one mode, following aliases; undefined when the style has none
+ */
+const resolveTextStyleFontSize = async (
+  variable: Variable,
+  modeId: string,
+  modeName: string | undefined,
+  options: ConversionOptions
+): Promise<number | undefined> => {
+  const fontSizeId = getTextStyleFontSizeId(variable.id);
+  let current = fontSizeId
+    ? await figma.variables.getVariableByIdAsync(fontSizeId)
+    : null;
+  let currentModeId = modeId;
+
+  for (let depth = 0; depth < 16 && current; depth += 1) {
+    const valuesByMode = current.valuesByMode || {};
+    if (valuesByMode[currentModeId] === undefined) {
+      // Aliases can cross into a collection with other modes
+      const collection = current.variableCollectionId
+        ? await figma.variables.getVariableCollectionByIdAsync(
+            current.variableCollectionId
+          )
+        : null;
+      const mode = collection
+        ? resolveMappedMode(collection, modeName, options.modeMapping)
+        : undefined;
+      currentModeId = mode ? mode.modeId : Object.keys(valuesByMode)[0];
+    }
+
+    const rawValue = valuesByMode[currentModeId];
+    if (typeof rawValue === "number") {
+      return rawValue > 0 ? rawValue : undefined;
+    }
+    if (!isVariableAlias(rawValue)) {
+      return undefined;
+    }
+    current = await figma.variables.getVariableByIdAsync(rawValue.id);
+  }
+  return undefined;
 };
 
 /**
@@ -139,8 +238,8 @@ const convertFloatValue = async (
   modeId: string | undefined,
   collectionName: string,
   modeName: string | undefined,
-  namingConvention: TokenNamingConvention,
-  exportedIds: Set<string>
+  options: ConversionOptions,
+  exportedNames: Map<string, string>
 ): Promise<string> => {
   const valuesByMode = variable.valuesByMode || {};
   if (Object.keys(valuesByMode).length === 0) {
@@ -152,41 +251,17 @@ const convertFloatValue = async (
   const rawValue = valuesByMode[targetModeId];
 
   // Check if it's an alias
-  if (
-    typeof rawValue === "object" &&
-    rawValue !== null &&
-    "type" in rawValue &&
-    (rawValue as { type: string }).type === "VARIABLE_ALIAS"
-  ) {
-    const aliasId = (rawValue as VariableAlias).id;
-    const aliasedVariable = await figma.variables.getVariableByIdAsync(aliasId);
-    if (aliasedVariable) {
-      const ref = await generateAliasReference(
-        aliasedVariable,
-        namingConvention,
-        exportedIds
-      );
-      if (ref) {
-        console.log(`🔗 Alias ref for ${variable.name} → ${ref}`);
-        return ref;
-      }
-      const resolved = await resolveAliasToRawValue(
-        aliasedVariable,
-        targetModeId,
-        collectionName,
-        modeName
-      );
-      if (resolved) {
-        console.warn(
-          `⚠️ Orphan alias chain for ${variable.name} — inlined raw value`
-        );
-        return resolved;
-      }
-    }
-    console.error(
-      `❌ Alias target missing for ${variable.name} (alias ID: ${aliasId})`
+  if (isVariableAlias(rawValue)) {
+    const aliasValue = await convertAliasValue(
+      variable,
+      rawValue,
+      targetModeId,
+      collectionName,
+      modeName,
+      options,
+      exportedNames
     );
-    return "0";
+    return aliasValue ?? "0";
   }
 
   const floatValue = rawValue as number;
@@ -198,7 +273,13 @@ const convertFloatValue = async (
     return "0";
   }
 
-  return safeFloatConversion(floatValue, variable.name, variable);
+  return safeFloatConversion(
+    floatValue,
+    variable.name,
+    variable,
+    options,
+    await resolveTextStyleFontSize(variable, targetModeId, modeName, options)
+  );
 };
 
 /**
@@ -209,8 +290,8 @@ const convertStringValue = async (
   modeId: string | undefined,
   collectionName: string,
   modeName: string | undefined,
-  namingConvention: TokenNamingConvention,
-  exportedIds: Set<string>
+  options: ConversionOptions,
+  exportedNames: Map<string, string>
 ): Promise<string> => {
   const valuesByMode = variable.valuesByMode || {};
   if (Object.keys(valuesByMode).length === 0) {
@@ -222,41 +303,17 @@ const convertStringValue = async (
   const rawValue = valuesByMode[targetModeId];
 
   // Check if it's an alias
-  if (
-    typeof rawValue === "object" &&
-    rawValue !== null &&
-    "type" in rawValue &&
-    (rawValue as { type: string }).type === "VARIABLE_ALIAS"
-  ) {
-    const aliasId = (rawValue as VariableAlias).id;
-    const aliasedVariable = await figma.variables.getVariableByIdAsync(aliasId);
-    if (aliasedVariable) {
-      const ref = await generateAliasReference(
-        aliasedVariable,
-        namingConvention,
-        exportedIds
-      );
-      if (ref) {
-        console.log(`🔗 Alias ref for ${variable.name} → ${ref}`);
-        return ref;
-      }
-      const resolved = await resolveAliasToRawValue(
-        aliasedVariable,
-        targetModeId,
-        collectionName,
-        modeName
-      );
-      if (resolved) {
-        console.warn(
-          `⚠️ Orphan alias chain for ${variable.name} — inlined raw value`
-        );
-        return resolved;
-      }
-    }
-    console.error(
-      `❌ Alias target missing for ${variable.name} (alias ID: ${aliasId})`
+  if (isVariableAlias(rawValue)) {
+    const aliasValue = await convertAliasValue(
+      variable,
+      rawValue,
+      targetModeId,
+      collectionName,
+      modeName,
+      options,
+      exportedNames
     );
-    return '""';
+    return aliasValue ?? '""';
   }
 
   const stringValue = rawValue as string;
@@ -272,6 +329,43 @@ const convertStringValue = async (
   return safeStringConversion(stringValue, variable.name);
 };
 
+/**
+ * Converts boolean variables to `true`/`false`
+ */
+const convertBooleanValue = async (
+  variable: Variable,
+  modeId: string | undefined,
+  collectionName: string,
+  modeName: string | undefined,
+  options: ConversionOptions,
+  exportedNames: Map<string, string>
+): Promise<string> => {
+  const valuesByMode = variable.valuesByMode || {};
+  if (Object.keys(valuesByMode).length === 0) {
+    console.warn(`⚠️ No boolean modes found for ${variable.name}`);
+    return "false";
+  }
+
+  const targetModeId = modeId || Object.keys(valuesByMode)[0];
+  const rawValue = valuesByMode[targetModeId];
+
+  // Check if it's an alias
+  if (isVariableAlias(rawValue)) {
+    const aliasValue = await convertAliasValue(
+      variable,
+      rawValue,
+      targetModeId,
+      collectionName,
+      modeName,
+      options,
+      exportedNames
+    );
+    return aliasValue ?? "false";
+  }
+
+  return safeBooleanConversion(rawValue as boolean, variable.name);
+};
+
 /**
  * Generates CSS value for a Figma variable
  */
@@ -280,8 +374,8 @@ export const generateCSSValue = async (
   modeId?: string,
   collectionName: string = "",
   modeName?: string,
-  namingConvention: TokenNamingConvention = "camel-case",
-  exportedIds: Set<string> = new Set()
+  options: ConversionOptions = { namingConvention: "camel-case" },
+  exportedNames: Map<string, string> = new Map()
 ): Promise<string> => {
   try {
     if (!variable) {
@@ -298,6 +392,7 @@ export const generateCSSValue = async (
       COLOR: convertColorValue,
       FLOAT: convertFloatValue,
       STRING: convertStringValue,
+      BOOLEAN: convertBooleanValue,
     };
 
     const converter =
@@ -315,8 +410,8 @@ export const generateCSSValue = async (
       modeId,
       collectionName,
       modeName,
-      namingConvention,
-      exportedIds
+      options,
+      exportedNames
     );
   } catch (error) {
     console.error(
@@ -326,3 +421,177 @@ export const generateCSSValue = async (
     return "";
   }
 };
+
+/**
+ * Finds the collection's fluid endpoint modes by name (case-insensitive).
+ * Collections without both modes convert normally.
+ */
+export const findFluidModes = (
+  collection: VariableCollection,
+  options: ConversionOptions
+): { min: CollectionMode; max: CollectionMode } | null => {
+  if (!options.fluid) {
+    return null;
+  }
+
+  const findMode = (name: string) =>
+    collection.modes.find(
+      (mode) => mode.name.trim().toLowerCase() === name.trim().toLowerCase()
+    );
+  const min = findMode(options.fluid.minMode);
+  const max = findMode(options.fluid.maxMode);
+
+  return min && max && min.modeId !== max.modeId ? { min, max } : null;
+};
+
+/**
+ * Whether the variable aliases a fluid token in `mode`: one whose
+ * collection has both fluid modes and whose value differs between them,
+ * so its `var()` is itself a `clamp()`
+ */
+const aliasesFluidToken = async (
+  variable: Variable,
+  mode: CollectionMode,
+  options: ConversionOptions
+): Promise<boolean> => {
+  const rawValue = (variable.valuesByMode || {})[mode.modeId];
+  if (!isVariableAlias(rawValue)) {
+    return false;
+  }
+
+  const target = await figma.variables.getVariableByIdAsync(rawValue.id);
+  const collection = target?.variableCollectionId
+    ? await figma.variables.getVariableCollectionByIdAsync(
+        target.variableCollectionId
+      )
+    : null;
+  const fluidModes = collection ? findFluidModes(collection, options) : null;
+  if (!target || !fluidModes) {
+    return false;
+  }
+
+  const values = target.valuesByMode || {};
+  return (
+    JSON.stringify(values[fluidModes.min.modeId]) !==
+    JSON.stringify(values[fluidModes.max.modeId])
+  );
+};
+
+/** Whether a generated value is a single `var()` reference */
+const isVarReference = (value: string): boolean =>
+  /^var\(--[^)]+\)$/.test(value.trim());
+
+/**
+ * Resolves a FLOAT variable to a concrete converted value in one mode,
+ * following aliases instead of emitting `var()` references
+ */
+const resolveFloatForMode = async (
+  variable: Variable,
+  mode: CollectionMode,
+  collectionName: string,
+  options: ConversionOptions
+): Promise<string | null> => {
+  const rawValue = (variable.valuesByMode || {})[mode.modeId];
+
+  if (isVariableAlias(rawValue)) {
+    const aliasedVariable = await figma.variables.getVariableByIdAsync(
+      rawValue.id
+    );
+    return aliasedVariable
+      ? resolveAliasToRawValue(
+          aliasedVariable,
+          mode.modeId,
+          collectionName,
+          mode.name,
+          options
+        )
+      : null;
+  }
+
+  return typeof rawValue === "number"
+    ? safeFloatConversion(rawValue, variable.name, variable, options)
+    : null;
+};
+
+/**
+ * Generates a fluid value spanning two modes. FLOAT dimensions that differ
+ * become `clamp()`; tokens that match in both modes (including the same
+ * alias) keep their min-mode value, so references survive. Aliased bounds
+ * stay `var()` references inside the clamp, but the `vw` slope between
+ * them is computed from the values they resolve to at export time. A bound
+ * aliasing a token that is fluid itself uses that token's endpoint value,
+ * since its `var()` would nest the whole `clamp()`.
+ */
+export const generateFluidCSSValue = async (
+  variable: Variable,
+  minMode: CollectionMode,
+  maxMode: CollectionMode,
+  collectionName: string,
+  options: ConversionOptions,
+  exportedNames: Map<string, string> = new Map()
+): Promise<string> => {
+  const minValue = await generateCSSValue(
+    variable,
+    minMode.modeId,
+    collectionName,
+    minMode.name,
+    options,
+    exportedNames
+  );
+  if (variable.resolvedType !== "FLOAT" || !options.fluid || !minValue) {
+    return minValue;
+  }
+
+  const maxValue = await generateCSSValue(
+    variable,
+    maxMode.modeId,
+    collectionName,
+    maxMode.name,
+    options,
+    exportedNames
+  );
+  if (minValue === maxValue) {
+    return minValue;
+  }
+
+  const [minRaw, maxRaw, minIsFluidAlias, maxIsFluidAlias] =
+    await Promise.all([
+      resolveFloatForMode(variable, minMode, collectionName, options),
+      resolveFloatForMode(variable, maxMode, collectionName, options),
+      aliasesFluidToken(variable, minMode, options),
+      aliasesFluidToken(variable, maxMode, options),
+    ]);
+  if (minIsFluidAlias || maxIsFluidAlias) {
+    console.warn(
+      `⚠️ ${variable.name} aliases a fluid token, so its clamp() uses that token's ${minMode.name}/${maxMode.name} values instead of var()`
+    );
+  }
+  const clamp =
+    minRaw && maxRaw
+      ? toFluidClamp(
+          minRaw,
+          maxRaw,
+          options.fluid,
+          options.rootFontSize || BASE_FONT_SIZE,
+          {
+            min:
+              isVarReference(minValue) && !minIsFluidAlias
+                ? minValue
+                : undefined,
+            max:
+              isVarReference(maxValue) && !maxIsFluidAlias
+                ? maxValue
+                : undefined,
+          }
+        )
+      : null;
+
+  if (!clamp) {
+    console.warn(
+      `⚠️ ${variable.name} differs between ${minMode.name} and ${maxMode.name} but isn't a dimension, using ${minMode.name}`
+    );
+    return minValue;
+  }
+
+  return clamp;
+};
@@ -0,0 +1,322 @@
+/**
+ * Design Tokens Community Group (DTCG) JSON builder
+ * Produces nested token groups following the Figma `/` path.
+ */
+
+import {
+  CSSVariable,
+  TokenPathCollision,
+  TypographyGroup,
+  TypographyProperty,
+} from "../types/index";
+import { WEIGHT_KEYWORDS } from "../constants/token-patterns";
+import { resolveScopeMapping } from "./variable-type-detector.service";
+import {
+  TYPOGRAPHY_PROPERTY_ORDER,
+  filterTypographyGroups,
+} from "./typography.service";
+
+type DtcgType =
+  | "color"
+  | "dimension"
+  | "fontFamily"
+  | "fontWeight"
+  | "duration"
+  | "number"
+  | "typography";
+
+type DtcgGroup = { [key: string]: unknown };
+
+/** Resolves a variable to the path its token was written to */
+type TokenPathLookup = (variable: CSSVariable) => string[];
+
+/** Vendor key used for Figma metadata in `$extensions` */
+const FIGMA_EXTENSION_KEY = "com.figma";
+
+/** Maximum alias hops followed when inferring an alias token type */
+const MAX_ALIAS_DEPTH = 16;
+
+const VAR_REFERENCE_PATTERN = /^var\((--[^,)\s]+)(?:,.*)?\)$/;
+const DIMENSION_PATTERN = /^-?\d*\.?\d+(px|rem|em)$/;
+const DURATION_PATTERN = /^-?\d*\.?\d+m?s$/;
+const NUMBER_PATTERN = /^-?\d*\.?\d+$/;
+const PERCENT_PATTERN = /^-?\d*\.?\d+%$/;
+
+/**
+ * Splits a Figma variable path into DTCG-safe group/token names.
+ * DTCG reserves `.`, `{`, `}` and a leading `$` in names.
+ */
+const toDtcgPath = (path: string): string[] =>
+  path
+    .split("/")
+    .map((segment) =>
+      segment
+        .trim()
+        .replace(/[.{}]+/g, "-")
+        .replace(/^\$+/, "")
+    )
+    .filter((segment) => segment.length > 0);
+
+const getTokenPath = (variable: CSSVariable): string[] =>
+  toDtcgPath(
+    variable.source?.tokenPath ||
+      variable.source?.path ||
+      variable.name.replace(/^--/, "")
+  );
+
+const getAliasTarget = (
+  variable: CSSVariable,
+  variablesByName: Map<string, CSSVariable>
+): CSSVariable | null => {
+  const match = variable.value.trim().match(VAR_REFERENCE_PATTERN);
+  return match ? variablesByName.get(match[1]) || null : null;
+};
+
+const inferDtcgType = (
+  variable: CSSVariable,
+  variablesByName: Map<string, CSSVariable>
+): DtcgType | undefined => {
+  let current: CSSVariable = variable;
+  for (let depth = 0; depth < MAX_ALIAS_DEPTH; depth += 1) {
+    const target = getAliasTarget(current, variablesByName);
+    if (!target) break;
+    current = target;
+  }
+
+  const value = current.value.trim();
+  const resolvedType = current.source?.resolvedType;
+  const pathLower = (current.source?.path || current.name).toLowerCase();
+
+  if (current.type === "color" || resolvedType === "COLOR") {
+    return "color";
+  }
+
+  if (resolvedType === "STRING") {
+    return current.type === "fonts" ? "fontFamily" : undefined;
+  }
+
+  if (DURATION_PATTERN.test(value)) {
+    return "duration";
+  }
+
+  if (DIMENSION_PATTERN.test(value)) {
+    return "dimension";
+  }
+
+  if (
+    resolveScopeMapping(current.source?.scopes)?.unit === "font-weight" ||
+    (current.type === "fonts" &&
+      WEIGHT_KEYWORDS.some((keyword) => pathLower.includes(keyword)))
+  ) {
+    return "fontWeight";
+  }
+
+  if (NUMBER_PATTERN.test(value) || PERCENT_PATTERN.test(value)) {
+    return "number";
+  }
+
+  return undefined;
+};
+
+const toDtcgValue = (
+  variable: CSSVariable,
+  type: DtcgType | undefined
+): string | number | boolean => {
+  const trimmed = variable.value.trim();
+
+  // DTCG has no boolean type, so booleans are untyped JSON booleans
+  if (variable.type === "boolean" && (trimmed === "true" || trimmed === "false")) {
+    return trimmed === "true";
+  }
+
+  if (type === "number" && PERCENT_PATTERN.test(trimmed)) {
+    return parseFloat(trimmed) / 100;
+  }
+
+  if ((type === "number" || type === "fontWeight") && NUMBER_PATTERN.test(trimmed)) {
+    return parseFloat(trimmed);
+  }
+
+  if (type === "fontFamily") {
+    return trimmed.replace(/^["']|["']$/g, "");
+  }
+
+  return trimmed;
+};
+
+const buildToken = (
+  variable: CSSVariable,
+  variablesByName: Map<string, CSSVariable>,
+  getPath: TokenPathLookup
+): DtcgGroup => {
+  const type = inferDtcgType(variable, variablesByName);
+  const aliasTarget = getAliasTarget(variable, variablesByName);
+  const token: DtcgGroup = {
+    $value: aliasTarget
+      ? `{${getPath(aliasTarget).join(".")}}`
+      : toDtcgValue(variable, type),
+  };
+
+  if (type) {
+    token.$type = type;
+  }
+
+  if (variable.source) {
+    token.$extensions = {
+      [FIGMA_EXTENSION_KEY]: {
+        variableId: variable.source.id,
+        collection: variable.source.collection,
+        ...(variable.source.scopes ? { scopes: variable.source.scopes } : {}),
+      },
+    };
+  }
+
+  return token;
+};
+
+/**
+ * Inserts a token and returns the path it landed on. A segment taken by
+ * another token (or, for the token name, by a group) is numbered from 2,
+ * e.g. color.primary → color.primary-2, so no token is lost.
+ */
+const insertToken = (
+  root: DtcgGroup,
+  path: string[],
+  token: DtcgGroup
+): string[] => {
+  let group = root;
+  const resolvedPath: string[] = [];
+
+  path.forEach((segment, index) => {
+    const isTokenName = index === path.length - 1;
+    const isTaken = (key: string) => {
+      const existing = group[key] as DtcgGroup | undefined;
+      return Boolean(existing) && (isTokenName || "$value" in (existing as DtcgGroup));
+    };
+
+    let key = segment;
+    for (let suffix = 2; isTaken(key); suffix += 1) {
+      key = `${segment}-${suffix}`;
+    }
+    resolvedPath.push(key);
+
+    if (isTokenName) {
+      group[key] = token;
+      return;
+    }
+    if (!group[key]) {
+      group[key] = {};
+    }
+    group = group[key] as DtcgGroup;
+  });
+
+  return resolvedPath;
+};
+
+/**
+ * Inserts a token, warning and reporting when its path had to be numbered
+ */
+const placeToken = (
+  root: DtcgGroup,
+  path: string[],
+  token: DtcgGroup,
+  name: string,
+  onPathCollision?: (collision: TokenPathCollision) => void
+): string[] => {
+  const resolvedPath = insertToken(root, path, token);
+  if (resolvedPath.join(".") !== path.join(".")) {
+    console.warn(
+      `⚠️ DTCG token path "${path.join(".")}" is taken, exporting ${name} as "${resolvedPath.join(".")}"`
+    );
+    onPathCollision?.({
+      variable: name,
+      path: path.join("."),
+      resolvedPath: resolvedPath.join("."),
+    });
+  }
+  return resolvedPath;
+};
+
+/**
+ * Builds a `typography` composite whose members reference the group's
+ * tokens. It sits next to them as `<group>.typography`.
+ */
+const buildTypographyToken = (
+  group: TypographyGroup,
+  variablesByName: Map<string, CSSVariable>,
+  getPath: TokenPathLookup
+): { path: string[]; token: DtcgGroup } | null => {
+  const value: Partial<Record<TypographyProperty, string>> = {};
+
+  TYPOGRAPHY_PROPERTY_ORDER.forEach((property) => {
+    const memberName = group.members[property];
+    const member = memberName ? variablesByName.get(memberName) : undefined;
+    if (member) {
+      value[property] = `{${getPath(member).join(".")}}`;
+    }
+  });
+
+  const path = toDtcgPath(group.path);
+  if (path.length === 0) {
+    return null;
+  }
+
+  return {
+    path: [...path, "typography"],
+    token: { $value: value, $type: "typography" },
+  };
+};
+
+/**
+ * Builds a DTCG JSON document for one theme.
+ * `referenceVariables` resolves `var(--…)` aliases to `{group.token}`
+ * references and defaults to the theme's own variables. Typography groups
+ * add `typography` composite tokens. Tokens whose path is already taken
+ * are numbered and reported through `onPathCollision`.
+ */
+export const buildDtcgOutput = (
+  cssVariables: CSSVariable[] = [],
+  referenceVariables: CSSVariable[] = cssVariables,
+  typography: TypographyGroup[] = [],
+  onPathCollision?: (collision: TokenPathCollision) => void
+): string => {
+  const variablesByName = new Map<string, CSSVariable>();
+  cssVariables.concat(referenceVariables).forEach((variable) => {
+    if (!variablesByName.has(variable.name)) {
+      variablesByName.set(variable.name, variable);
+    }
+  });
+
+  const root: DtcgGroup = {};
+  const placedPaths = new Map<string, string[]>();
+  const getPath: TokenPathLookup = (variable) =>
+    placedPaths.get(variable.name) || getTokenPath(variable);
+
+  // Place every token first so aliases point at the numbered paths; the
+  // `$value` placeholder marks the slot as a token while paths are placed
+  const placed = cssVariables
+    .slice()
+    .sort((a, b) => getTokenPath(a).join(".").localeCompare(getTokenPath(b).join(".")))
+    .filter((variable) => getTokenPath(variable).length > 0)
+    .map((variable) => {
+      const token: DtcgGroup = { $value: null };
+      placedPaths.set(
+        variable.name,
+        placeToken(root, getTokenPath(variable), token, variable.name, onPathCollision)
+      );
+      return { variable, token };
+    });
+
+  placed.forEach(({ variable, token }) => {
+    Object.assign(token, buildToken(variable, variablesByName, getPath));
+  });
+
+  filterTypographyGroups(typography, cssVariables).forEach((group) => {
+    const composite = buildTypographyToken(group, variablesByName, getPath);
+    if (composite) {
+      placeToken(root, composite.path, composite.token, group.path, onPathCollision);
+    }
+  });
+
+  return `${JSON.stringify(root, null, 2)}\n`;
+};
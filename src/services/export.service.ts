@@ -2,16 +2,29 @@
  * Export orchestration service
  */
 
-import { ConversionResult, ExportOptions } from "../types/index";
 import {
-  buildCssOutput,
-  buildScssOutput,
-  buildTailwindThemeOutput,
-  buildThemeAwareCssOutput,
-} from "./css-builder.service";
+  ConversionResult,
+  ExportFormat,
+  ExportOptions,
+  GitHubApiResponse,
+  TokenPathCollision,
+} from "../types/index";
+import { buildThemeAwareCssOutput } from "./css-builder.service";
 import { pushCssThemesToGitHub } from "../github-service";
 import { GITHUB_CONFIG } from "../config";
 
+/** Output file name and commit label for each export format */
+const EXPORT_FORMAT_DETAILS: Record<
+  ExportFormat,
+  { fileName: string; formatLabel: string }
+> = {
+  "css-variables": { fileName: "variables.css", formatLabel: "CSS variables" },
+  "tailwind-theme": { fileName: "theme.css", formatLabel: "Tailwind theme" },
+  scss: { fileName: "variables.scss", formatLabel: "SCSS variables" },
+  "dtcg-json": { fileName: "tokens.json", formatLabel: "DTCG tokens" },
+  typescript: { fileName: "tokens.ts", formatLabel: "TypeScript tokens" },
+};
+
 function assertGitHubConfig(): void {
   const missing: string[] = [];
   if (!GITHUB_CONFIG.owner) missing.push("owner");
@@ -26,27 +39,42 @@ function assertGitHubConfig(): void {
   }
 }
 
+/**
+ * Appends a post-push warning, e.g. a pull request that couldn't be opened
+ */
+const withWarning = (message: string, result: GitHubApiResponse): string =>
+  result.warning ? `${message}. ⚠️ ${result.warning}` : message;
+
+/**
+ * Appends the tokens the DTCG or TypeScript builder had to renumber
+ */
+const withPathCollisions = (
+  message: string,
+  collisions: TokenPathCollision[]
+): string =>
+  collisions.length
+    ? `${message}. ⚠️ ${collisions.length} token path(s) were taken and renumbered: ${collisions
+        .map((collision) => `${collision.variable} → ${collision.resolvedPath}`)
+        .join(", ")}`
+    : message;
+
 /**
  * Exports CSS variables to GitHub repository
  */
 export async function exportToGitHub(
   data: ConversionResult,
   options: ExportOptions = { format: "css-variables" }
-): Promise<{ success: boolean; message: string }> {
+): Promise<{ success: boolean; message: string; prUrl?: string }> {
   try {
     assertGitHubConfig();
-    const isTailwindTheme = options.format === "tailwind-theme";
-    const isScss = options.format === "scss";
-    const fileName = isTailwindTheme
-      ? "theme.css"
-      : isScss
-        ? "variables.scss"
-        : "variables.css";
-    const formatLabel = isTailwindTheme
-      ? "Tailwind theme"
-      : isScss
-        ? "SCSS variables"
-        : "CSS variables";
+    // Keyed by variable and path, since every theme reports the same clash
+    const pathCollisions = new Map<string, TokenPathCollision>();
+    const collectPathCollision = (collision: TokenPathCollision) =>
+      pathCollisions.set(`${collision.variable} ${collision.resolvedPath}`, collision);
+
+    const { fileName, formatLabel } =
+      EXPORT_FORMAT_DETAILS[options.format] ||
+      EXPORT_FORMAT_DETAILS["css-variables"];
 
     console.log("🚀 Starting GitHub export...");
     console.log("   export format:", options.format);
@@ -67,24 +95,46 @@ export async function exportToGitHub(
       console.log("   Themes to export:", data.themes);
       const themeOutput = buildThemeAwareCssOutput(
         data.variablesByTheme,
-        options.format
+        options,
+        data.typography,
+        collectPathCollision
       );
       console.log("🎨 Theme-aware CSS files generated:", Object.keys(themeOutput));
 
-      const totalThemes = Object.keys(themeOutput).length;
+      const totalThemes = data.themes.length;
       const totalVariables = data.variables?.length || 0;
 
       console.log(`📤 Pushing ${totalThemes} theme(s) in a single commit...`);
       const githubResult = await pushCssThemesToGitHub(themeOutput, {
         fileName,
         formatLabel,
+        themes: data.themes,
+        selection: data.selection,
       });
 
+      if (githubResult.skipped) {
+        console.log("⏭️ Nothing to export:", githubResult.message);
+        return {
+          success: true,
+          message: withPathCollisions(
+            githubResult.message,
+            Array.from(pathCollisions.values())
+          ),
+        };
+      }
+
       if (githubResult.success) {
         console.log(`✅ All themes pushed successfully in one commit`);
         return {
           success: true,
-          message: `Successfully exported ${totalVariables} variables as ${formatLabel} across ${totalThemes} theme(s) in a single commit`,
+          message: withWarning(
+            withPathCollisions(
+              `Successfully exported ${totalVariables} variables as ${formatLabel} across ${totalThemes} theme(s) in a single commit`,
+              Array.from(pathCollisions.values())
+            ),
+            githubResult
+          ),
+          prUrl: githubResult.prUrl,
         };
       } else {
         console.error(`❌ Failed to push themes:`, githubResult.message);
@@ -96,23 +146,43 @@ export async function exportToGitHub(
     } else {
       // Fallback to single theme export
       console.log("⚠️ FALLING BACK TO SINGLE THEME MODE!");
-      const cssOutput = isTailwindTheme
-        ? buildTailwindThemeOutput(data.variables)
-        : isScss
-          ? buildScssOutput(data.variables)
-          : buildCssOutput(data.variables);
-      const githubResult = await pushCssThemesToGitHub(
-        { theme: cssOutput },
-        { fileName, formatLabel }
+      const themeOutput = buildThemeAwareCssOutput(
+        { theme: data.variables },
+        options,
+        data.typography,
+        collectPathCollision
       );
+      const githubResult = await pushCssThemesToGitHub(themeOutput, {
+        fileName,
+        formatLabel,
+        selection: data.selection,
+      });
 
       const totalVariables = data.variables?.length || 0;
 
+      if (githubResult.skipped) {
+        console.log("⏭️ Nothing to export:", githubResult.message);
+        return {
+          success: true,
+          message: withPathCollisions(
+            githubResult.message,
+            Array.from(pathCollisions.values())
+          ),
+        };
+      }
+
       if (githubResult.success) {
         console.log("✅ GitHub push successful:", githubResult.message);
         return {
           success: true,
-          message: `Successfully exported ${totalVariables} variables as ${formatLabel}`,
+          message: withWarning(
+            withPathCollisions(
+              `Successfully exported ${totalVariables} variables as ${formatLabel}`,
+              Array.from(pathCollisions.values())
+            ),
+            githubResult
+          ),
+          prUrl: githubResult.prUrl,
         };
       } else {
         console.error("❌ GitHub push failed:", githubResult.message);
@@ -0,0 +1,176 @@
+/**
+ * Mode mapping service
+ * Decides which mode of a referenced collection a source mode resolves
+ * against, and which theme files a variable's modes land in.
+ */
+
+import "../types/figma.types";
+import { ModeMapping, ModeMappingSuggestion } from "../types/index";
+
+type CollectionMode = VariableCollection["modes"][number];
+
+const normalizeModeName = (name: string): string => name.trim().toLowerCase();
+
+const isAlias = (value: unknown): value is VariableAlias =>
+  typeof value === "object" &&
+  value !== null &&
+  "type" in value &&
+  (value as { type: string }).type === "VARIABLE_ALIAS";
+
+/**
+ * Finds the mode of `collection` to use for `sourceModeName`: the mapped
+ * mode first, then a mode with the same name. Returns undefined when
+ * neither exists so the caller can warn before falling back.
+ */
+export const resolveMappedMode = (
+  collection: VariableCollection,
+  sourceModeName: string | undefined,
+  modeMapping?: ModeMapping
+): CollectionMode | undefined => {
+  if (!sourceModeName) {
+    return undefined;
+  }
+
+  const mappedName = modeMapping?.[sourceModeName]?.[collection.name];
+  if (mappedName) {
+    const mapped = collection.modes.find((mode) => mode.name === mappedName);
+    if (mapped) {
+      return mapped;
+    }
+    console.warn(
+      `⚠️ Mode mapping "${sourceModeName}" → ${collection.name}/"${mappedName}" points to a missing mode`
+    );
+  }
+
+  return collection.modes.find((mode) => mode.name === sourceModeName);
+};
+
+/**
+ * Theme names a collection mode is emitted under. Modes that source modes
+ * map to land in those themes; unmapped modes keep their own name.
+ */
+export const getThemesForMode = (
+  collectionName: string,
+  modeName: string,
+  modeMapping?: ModeMapping
+): string[] => {
+  if (!modeMapping) {
+    return [modeName];
+  }
+
+  const mappedThemes = Object.keys(modeMapping).filter(
+    (sourceMode) => modeMapping[sourceMode][collectionName] === modeName
+  );
+  if (mappedThemes.length === 0) {
+    return [modeName];
+  }
+
+  // A source mode with the same name still needs its own theme
+  return modeMapping[modeName] && !mappedThemes.includes(modeName)
+    ? [modeName, ...mappedThemes]
+    : mappedThemes;
+};
+
+/**
+ * Picks the closest target mode by name: an exact match, then the longest
+ * target name contained in the source name ("Brand A Light" → "Light"),
+ * then the first mode.
+ */
+const suggestTargetMode = (
+  sourceModeName: string,
+  targetModes: CollectionMode[]
+): string => {
+  const source = normalizeModeName(sourceModeName);
+  const exact = targetModes.find(
+    (mode) => normalizeModeName(mode.name) === source
+  );
+  if (exact) {
+    return exact.name;
+  }
+
+  const contained = targetModes
+    .filter((mode) => {
+      const target = normalizeModeName(mode.name);
+      return target.length > 0 && (source.includes(target) || target.includes(source));
+    })
+    .sort((a, b) => b.name.length - a.name.length)[0];
+
+  return (contained || targetModes[0]).name;
+};
+
+/**
+ * Suggests a mode mapping for collections whose variables alias other
+ * multi-mode collections. Single-mode targets need no mapping.
+ */
+export const suggestModeMapping = (
+  collections: VariableCollection[],
+  referencesById: Record<string, string[]>
+): ModeMappingSuggestion => {
+  const collectionsById = new Map(
+    collections.map((collection) => [collection.id, collection])
+  );
+  const mapping: ModeMapping = {};
+
+  const suggestionCollections = collections.map((collection) => {
+    const references = (referencesById[collection.id] || [])
+      .map((id) => collectionsById.get(id))
+      .filter(
+        (target): target is VariableCollection =>
+          target !== undefined &&
+          target.id !== collection.id &&
+          target.modes.length > 1
+      );
+
+    collection.modes.forEach((mode) => {
+      references.forEach((target) => {
+        mapping[mode.name] = mapping[mode.name] || {};
+        if (!mapping[mode.name][target.name]) {
+          mapping[mode.name][target.name] = suggestTargetMode(
+            mode.name,
+            target.modes
+          );
+        }
+      });
+    });
+
+    return {
+      name: collection.name,
+      modes: collection.modes.map((mode) => mode.name),
+      references: references.map((target) => target.name),
+    };
+  });
+
+  return { collections: suggestionCollections, mapping };
+};
+
+/**
+ * Collects, per collection id, the ids of the collections its variables
+ * alias directly
+ */
+export const collectCollectionReferences = async (
+  collections: VariableCollection[]
+): Promise<Record<string, string[]>> => {
+  const referencesById: Record<string, string[]> = {};
+
+  for (const collection of collections) {
+    const targets = new Set<string>();
+
+    for (const variableId of collection.variableIds) {
+      const variable = await figma.variables.getVariableByIdAsync(variableId);
+      const aliasIds = Object.values(variable?.valuesByMode || {})
+        .filter(isAlias)
+        .map((alias) => alias.id);
+
+      for (const aliasId of aliasIds) {
+        const target = await figma.variables.getVariableByIdAsync(aliasId);
+        if (target && target.variableCollectionId !== collection.id) {
+          targets.add(target.variableCollectionId);
+        }
+      }
+    }
+
+    referencesById[collection.id] = Array.from(targets);
+  }
+
+  return referencesById;
+};
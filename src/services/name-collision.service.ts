@@ -0,0 +1,178 @@
+/**
+ * CSS name collision service
+ * Assigns every exported variable its final custom property name and
+ * reports Figma variables that would otherwise share one.
+ */
+
+import "../types/figma.types";
+import { ConversionOptions, NameCollision } from "../types/index";
+import {
+  appendCSSVariableNameSuffix,
+  generateCSSVariableName,
+  generateTokenPath,
+  getVariableCSSName,
+} from "./variable-naming.service";
+
+interface NamedVariable {
+  id: string;
+  path: string;
+  collection: string;
+  name: string;
+}
+
+/**
+ * Formats collisions for logs and the "fail" strategy error
+ */
+export const formatCollisionReport = (collisions: NameCollision[]): string =>
+  collisions
+    .map(
+      (collision) =>
+        `${collision.name} ← ${collision.variables
+          .map((variable) => `${variable.collection}/${variable.path} (${variable.id})`)
+          .join(", ")}`
+    )
+    .join("; ");
+
+/**
+ * Picks the first number from 2 that makes the name free
+ */
+const nextFreeSuffix = (
+  baseName: string,
+  takenNames: Set<string>,
+  options: ConversionOptions
+): number => {
+  let suffix = 2;
+  while (
+    takenNames.has(
+      appendCSSVariableNameSuffix(baseName, suffix, options.namingConvention)
+    )
+  ) {
+    suffix += 1;
+  }
+  return suffix;
+};
+
+/**
+ * Adds the collection name after the collection's configured prefix, so
+ * the name template still only sees the variable path
+ */
+const withCollectionPrefix = (
+  collectionName: string,
+  options: ConversionOptions
+): ConversionOptions => ({
+  ...options,
+  collectionPrefixes: {
+    ...options.collectionPrefixes,
+    [collectionName]: [options.collectionPrefixes?.[collectionName], collectionName]
+      .filter(Boolean)
+      .join("/"),
+  },
+});
+
+/**
+ * Builds the variable id → CSS name map for every exported variable.
+ * Names shared by several variables are resolved with the configured
+ * strategy; "fail" throws with the collision report. Resolved variables
+ * also get a matching token path (variable id → path) so DTCG and
+ * TypeScript outputs keep them apart too.
+ */
+export const buildVariableNameMap = async (
+  collections: VariableCollection[],
+  options: ConversionOptions
+): Promise<{
+  names: Map<string, string>;
+  tokenPaths: Map<string, string>;
+  collisions: NameCollision[];
+}> => {
+  const variablesByName = new Map<string, NamedVariable[]>();
+
+  for (const collection of collections) {
+    for (const variableId of collection.variableIds) {
+      const variable = await figma.variables.getVariableByIdAsync(variableId);
+      if (!variable) {
+        continue;
+      }
+
+      const name = getVariableCSSName(collection.name, variable.name, options);
+      const group = variablesByName.get(name) || [];
+      group.push({
+        id: variable.id,
+        path: variable.name,
+        collection: collection.name,
+        name,
+      });
+      variablesByName.set(name, group);
+    }
+  }
+
+  const names = new Map<string, string>();
+  const tokenPaths = new Map<string, string>();
+  const takenNames = new Set(variablesByName.keys());
+  const collisions: NameCollision[] = [];
+  const strategy = options.collisionStrategy || "numeric-suffix";
+
+  variablesByName.forEach((group, name) => {
+    if (group.length === 1) {
+      names.set(group[0].id, name);
+      return;
+    }
+
+    const resolved = group.map((variable, index) => {
+      let resolvedName = name;
+      let tokenPath = generateTokenPath(variable.collection, variable.path, options);
+      if (strategy === "collection-prefix") {
+        const prefixedOptions = withCollectionPrefix(variable.collection, options);
+        resolvedName = generateCSSVariableName(
+          variable.collection,
+          variable.path,
+          options.namingConvention,
+          prefixedOptions
+        );
+        tokenPath = generateTokenPath(
+          variable.collection,
+          variable.path,
+          prefixedOptions
+        );
+      } else if (index > 0) {
+        const suffix = nextFreeSuffix(name, takenNames, options);
+        resolvedName = appendCSSVariableNameSuffix(name, suffix, options.namingConvention);
+        tokenPath = `${tokenPath}-${suffix}`;
+      }
+
+      // Prefixed names can still clash within one collection
+      if (resolvedName !== name && takenNames.has(resolvedName)) {
+        const suffix = nextFreeSuffix(resolvedName, takenNames, options);
+        resolvedName = appendCSSVariableNameSuffix(
+          resolvedName,
+          suffix,
+          options.namingConvention
+        );
+        tokenPath = `${tokenPath}-${suffix}`;
+      }
+      takenNames.add(resolvedName);
+      names.set(variable.id, resolvedName);
+      tokenPaths.set(variable.id, tokenPath);
+      return { ...variable, resolvedName };
+    });
+
+    collisions.push({
+      name,
+      variables: resolved.map(({ id, path, collection, resolvedName }) => ({
+        id,
+        path,
+        collection,
+        resolvedName,
+      })),
+    });
+  });
+
+  if (collisions.length > 0) {
+    const report = formatCollisionReport(collisions);
+    if (strategy === "fail") {
+      throw new Error(`CSS name collisions found: ${report}`);
+    }
+    console.warn(`⚠️ Resolved ${collisions.length} CSS name collision(s) with ${strategy}: ${report}`);
+  }
+
+  return { names, tokenPaths, collisions };
+};
@@ -0,0 +1,93 @@
+/**
+ * Team library service
+ * Lists variable collections from enabled team libraries and imports them
+ * so they can be converted next to the local collections.
+ */
+
+import "../types/figma.types";
+
+/**
+ * Lists the variable collections of all enabled team libraries
+ */
+export const listLibraryCollections = async (): Promise<
+  LibraryVariableCollection[]
+> => {
+  if (!figma.teamLibrary) {
+    throw new Error(
+      "Team library API not available. Please check the plugin's teamlibrary permission."
+    );
+  }
+
+  return figma.teamLibrary.getAvailableLibraryVariableCollectionsAsync();
+};
+
+/**
+ * Imports every variable of the given library collections and returns
+ * their collections, limited to the imported variables. Collections that
+ * fail to import are skipped with a warning.
+ */
+export const importLibraryCollections = async (
+  libraryCollectionKeys: string[]
+): Promise<VariableCollection[]> => {
+  if (libraryCollectionKeys.length === 0) {
+    return [];
+  }
+
+  const available = await listLibraryCollections();
+  const collectionsById = new Map<string, VariableCollection>();
+
+  for (const key of libraryCollectionKeys) {
+    const libraryCollection = available.find((collection) => collection.key === key);
+    if (!libraryCollection) {
+      console.warn(`⚠️ Library collection ${key} is not available, is its library enabled?`);
+      continue;
+    }
+
+    try {
+      const libraryVariables =
+        await figma.teamLibrary.getVariablesInLibraryCollectionAsync(key);
+
+      for (const libraryVariable of libraryVariables) {
+        const variable = await figma.variables.importVariableByKeyAsync(
+          libraryVariable.key
+        );
+        const existing = collectionsById.get(variable.variableCollectionId);
+        if (existing) {
+          existing.variableIds.push(variable.id);
+          continue;
+        }
+
+        const collection = await figma.variables.getVariableCollectionByIdAsync(
+          variable.variableCollectionId
+        );
+        if (!collection) {
+          console.warn(`⚠️ Collection of library variable ${variable.name} not found`);
+          continue;
+        }
+
+        // Built field by field: Figma objects expose fields through
+        // accessors that a spread doesn't reliably copy
+        collectionsById.set(collection.id, {
+          id: collection.id,
+          name: collection.name,
+          modes: collection.modes,
+          defaultModeId: collection.defaultModeId,
+          variableIds: [variable.id],
+          hiddenFromPublishing: collection.hiddenFromPublishing,
+          remote: true,
+        });
+      }
+
+      console.log(
+        `📚 Imported ${libraryVariables.length} variable(s) from ${libraryCollection.libraryName} / ${libraryCollection.name}`
+      );
+    } catch (error) {
+      console.warn(
+        `⚠️ Could not import library collection ${libraryCollection.name}:`,
+        error
+      );
+    }
+  }
+
+  return Array.from(collectionsById.values());
+};
@@ -0,0 +1,278 @@
+/**
+ * Token diff service
+ * Reads the tokens of generated files and compares an export with the
+ * files already on the base branch, token by token.
+ */
+
+import { ChangedToken, ThemeTokenDiff } from "../types/index";
+
+/** Token changes listed per file in changelogs before truncating */
+const MAX_LISTED_TOKENS = 50;
+
+/** The header line builders stamp with the export time */
+const EXPORT_TIMESTAMP_PATTERN = /^ \* Exported at: .*$/m;
+
+/** Blocks whose declarations are the file's plain tokens */
+const ROOT_BLOCK_PATTERN = /^(:root|@theme\b.*)$/;
+
+const TS_TOKEN_LINE_PATTERN =
+  /^\s*("(?:[^"\\]|\\.)*"|[A-Za-z_$][A-Za-z0-9_$]*):\s*(\{|.+?),?\s*$/;
+
+/**
+ * Reads `--name: value;` and `$name: value;` declarations from CSS, SCSS
+ * and Tailwind files. Tokens outside :root/@theme, e.g. in theme
+ * selectors or media queries, are keyed with their block.
+ */
+const parseStylesheetTokens = (content: string): Map<string, string> => {
+  const tokens = new Map<string, string>();
+  const blocks: string[] = [];
+  const source = content.replace(/\/\*[\s\S]*?\*\//g, "");
+  const statementPattern = /([^{};]+)\{|\}|([^{};]+);/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = statementPattern.exec(source))) {
+    if (match[1] !== undefined) {
+      blocks.push(match[1].trim());
+      continue;
+    }
+    if (match[2] === undefined) {
+      blocks.pop();
+      continue;
+    }
+
+    const declaration = match[2].trim();
+    const separator = declaration.indexOf(":");
+    const name = declaration.slice(0, separator).trim();
+    if (separator < 0 || !/^(--|\$)/.test(name)) {
+      continue;
+    }
+
+    const context = blocks
+      .filter((block) => !ROOT_BLOCK_PATTERN.test(block))
+      .join(" ");
+    tokens.set(
+      context ? `${context} ${name}` : name,
+      declaration.slice(separator + 1).trim()
+    );
+  }
+
+  return tokens;
+};
+
+/**
+ * Reads DTCG tokens as dotted path → JSON value
+ */
+const parseDtcgTokens = (content: string): Map<string, string> => {
+  const tokens = new Map<string, string>();
+
+  const walk = (node: unknown, path: string[]) => {
+    if (!node || typeof node !== "object") {
+      return;
+    }
+    const group = node as Record<string, unknown>;
+    if ("$value" in group) {
+      tokens.set(path.join("."), JSON.stringify(group.$value));
+      return;
+    }
+    Object.keys(group)
+      .filter((key) => !key.startsWith("$"))
+      .forEach((key) => walk(group[key], path.concat(key)));
+  };
+
+  try {
+    walk(JSON.parse(content), []);
+  } catch (error) {
+    console.warn("⚠️ Could not parse DTCG tokens for diffing:", error);
+  }
+  return tokens;
+};
+
+/**
+ * Reads the `tokens` tree of a TypeScript token module as dotted path →
+ * value. Relies on the one-key-per-line layout the builder writes.
+ */
+const parseTypeScriptTokens = (content: string): Map<string, string> => {
+  const tokens = new Map<string, string>();
+  const lines = content.split("\n");
+  const start = lines.findIndex((line) =>
+    line.startsWith("export const tokens = {")
+  );
+  if (start < 0) {
+    return tokens;
+  }
+
+  const path: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (/^\s*}/.test(line)) {
+      if (path.length === 0) break;
+      path.pop();
+      continue;
+    }
+
+    const match = line.match(TS_TOKEN_LINE_PATTERN);
+    if (!match) {
+      continue;
+    }
+    const key = match[1].startsWith('"') ? JSON.parse(match[1]) : match[1];
+    if (match[2] === "{") {
+      path.push(key);
+    } else {
+      tokens.set(path.concat(key).join("."), match[2]);
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Reads the tokens of a generated file, picking the parser by extension
+ */
+export const parseFileTokens = (
+  content: string,
+  fileName: string
+): Map<string, string> => {
+  if (fileName.endsWith(".json")) {
+    return parseDtcgTokens(content);
+  }
+  if (fileName.endsWith(".ts")) {
+    return parseTypeScriptTokens(content);
+  }
+  return parseStylesheetTokens(content);
+};
+
+/**
+ * Compares an exported file with its version on the base branch. A
+ * missing base file (`null`) makes every token an addition. Any other
+ * output, such as utility classes or mixins, only counts towards
+ * `unchanged`, which ignores nothing but the export timestamp.
+ */
+export const diffFileTokens = (
+  theme: string,
+  path: string,
+  baseContent: string | null,
+  content: string
+): ThemeTokenDiff => {
+  const before = parseFileTokens(baseContent || "", path);
+  const after = parseFileTokens(content, path);
+
+  const added: ThemeTokenDiff["added"] = [];
+  const changed: ChangedToken[] = [];
+  after.forEach((value, name) => {
+    const previous = before.get(name);
+    if (previous === undefined) {
+      added.push({ name, value });
+    } else if (previous !== value) {
+      changed.push({ name, before: previous, after: value });
+    }
+  });
+
+  const removed: ThemeTokenDiff["removed"] = [];
+  before.forEach((value, name) => {
+    if (!after.has(name)) {
+      removed.push({ name, value });
+    }
+  });
+
+  const unchanged =
+    baseContent !== null &&
+    baseContent.replace(EXPORT_TIMESTAMP_PATTERN, "") ===
+      content.replace(EXPORT_TIMESTAMP_PATTERN, "");
+
+  return {
+    theme,
+    path,
+    tokenCount: after.size,
+    added,
+    removed,
+    changed,
+    unchanged,
+  };
+};
+
+const getThemeLabel = (diff: ThemeTokenDiff): string => diff.theme || diff.path;
+
+const hasTokenChanges = (diff: ThemeTokenDiff): boolean =>
+  diff.added.length + diff.removed.length + diff.changed.length > 0;
+
+const formatChangeCounts = (diff: ThemeTokenDiff): string =>
+  `${diff.added.length} added, ${diff.removed.length} removed, ${diff.changed.length} changed`;
+
+/**
+ * One line per token change, formatted by `format`, truncated after
+ * MAX_LISTED_TOKENS
+ */
+const listTokenChanges = (
+  diff: ThemeTokenDiff,
+  format: {
+    added: (name: string, value: string) => string;
+    removed: (name: string, value: string) => string;
+    changed: (token: ChangedToken) => string;
+    more: (count: number) => string;
+  }
+): string[] => {
+  const lines = [
+    ...diff.added.map((token) => format.added(token.name, token.value)),
+    ...diff.removed.map((token) => format.removed(token.name, token.value)),
+    ...diff.changed.map(format.changed),
+  ];
+
+  return lines.length > MAX_LISTED_TOKENS
+    ? lines
+        .slice(0, MAX_LISTED_TOKENS)
+        .concat(format.more(lines.length - MAX_LISTED_TOKENS))
+    : lines;
+};
+
+/**
+ * Markdown list of token counts per exported file
+ */
+export const formatTokenCounts = (diffs: ThemeTokenDiff[]): string =>
+  diffs
+    .map((diff) => `- ${getThemeLabel(diff)}: ${diff.tokenCount} token(s)`)
+    .join("\n");
+
+/**
+ * Markdown changelog of added, removed and changed tokens per file, with
+ * old and new values
+ */
+export const formatChangeSummary = (diffs: ThemeTokenDiff[]): string => {
+  const sections = diffs.filter(hasTokenChanges).map((diff) =>
+    [
+      `- **${getThemeLabel(diff)}**: ${formatChangeCounts(diff)}`,
+      ...listTokenChanges(diff, {
+        added: (name, value) => `  - Added \`${name}\`: \`${value}\``,
+        removed: (name, value) => `  - Removed \`${name}\` (was \`${value}\`)`,
+        changed: (token) =>
+          `  - Changed \`${token.name}\`: \`${token.before}\` → \`${token.after}\``,
+        more: (count) => `  - …and ${count} more`,
+      }),
+    ].join("\n")
+  );
+
+  return sections.length ? sections.join("\n") : "No token changes.";
+};
+
+/**
+ * Plain-text changelog for commit messages: one section per changed file,
+ * `+` added, `-` removed and `~` changed tokens with their values
+ */
+export const formatCommitChangelog = (diffs: ThemeTokenDiff[]): string[] => {
+  const changedDiffs = diffs.filter(hasTokenChanges);
+  if (changedDiffs.length === 0) {
+    return ["Token changes: none"];
+  }
+
+  return changedDiffs.reduce<string[]>(
+    (lines, diff) =>
+      lines.concat(
+        `${getThemeLabel(diff)}: ${formatChangeCounts(diff)}`,
+        listTokenChanges(diff, {
+          added: (name, value) => `  + ${name}: ${value}`,
+          removed: (name, value) => `  - ${name}: ${value}`,
+          changed: (token) => `  ~ ${token.name}: ${token.before} → ${token.after}`,
+          more: (count) => `  …and ${count} more`,
+        })
+      ),
+    ["Token changes:"]
+  );
+};
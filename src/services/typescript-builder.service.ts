@@ -0,0 +1,184 @@
+/**
+ * TypeScript token module builder
+ * Produces a typed `as const` token tree plus a flat path → `var()` map.
+ */
+
+import { CSSVariable, TokenPathCollision } from "../types/index";
+import { cleanVariableName } from "../helpers/string.helper";
+
+type TokenValue = string | boolean;
+type TokenTree = { [key: string]: TokenTree | TokenValue };
+
+/** Maximum alias hops followed when resolving a token value */
+const MAX_ALIAS_DEPTH = 16;
+
+const VAR_REFERENCE_PATTERN = /^var\((--[^,)\s]+)(?:,.*)?\)$/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Converts one Figma path segment to a camelCase object key
+ * Example: "Brand Primary" → "brandPrimary", "500" → "500"
+ */
+const toPathKey = (segment: string): string => {
+  const cleaned = cleanVariableName(segment);
+  return cleaned.charAt(0).toLowerCase() + cleaned.slice(1);
+};
+
+const getTokenPath = (variable: CSSVariable): string[] =>
+  (
+    variable.source?.tokenPath ||
+    variable.source?.path ||
+    variable.name.replace(/^--/, "")
+  )
+    .split("/")
+    .map(toPathKey)
+    .filter((segment) => segment.length > 0);
+
+const formatKey = (key: string): string =>
+  IDENTIFIER_PATTERN.test(key) ? key : JSON.stringify(key);
+
+/**
+ * Follows `var(--…)` aliases to the referenced token's value so the
+ * token tree carries concrete values usable outside the browser.
+ */
+const resolveValue = (
+  variable: CSSVariable,
+  variablesByName: Map<string, CSSVariable>
+): TokenValue => {
+  let value = variable.value.trim();
+  for (let depth = 0; depth < MAX_ALIAS_DEPTH; depth += 1) {
+    const match = value.match(VAR_REFERENCE_PATTERN);
+    const target = match ? variablesByName.get(match[1]) : undefined;
+    if (!target) break;
+    value = target.value.trim();
+  }
+
+  if (variable.type === "boolean" && (value === "true" || value === "false")) {
+    return value === "true";
+  }
+  return value;
+};
+
+/**
+ * Inserts a token and returns the path it landed on. A segment taken by
+ * another token (or, for the leaf, by a group) is numbered from 2, e.g.
+ * color.primary → color.primary2, so no token is lost.
+ */
+const insertValue = (
+  root: TokenTree,
+  path: string[],
+  value: TokenValue
+): string[] => {
+  let node = root;
+  const resolvedPath: string[] = [];
+
+  path.forEach((segment, index) => {
+    const isLeaf = index === path.length - 1;
+    const isTaken = (key: string) =>
+      node[key] !== undefined && (isLeaf || typeof node[key] !== "object");
+
+    let key = segment;
+    for (let suffix = 2; isTaken(key); suffix += 1) {
+      key = `${segment}${suffix}`;
+    }
+    resolvedPath.push(key);
+
+    if (isLeaf) {
+      node[key] = value;
+      return;
+    }
+    if (!node[key]) {
+      node[key] = {};
+    }
+    node = node[key] as TokenTree;
+  });
+
+  return resolvedPath;
+};
+
+const formatTree = (tree: TokenTree, indent: string): string => {
+  const lines = Object.keys(tree).map((key) => {
+    const value = tree[key];
+    return typeof value !== "object"
+      ? `${indent}  ${formatKey(key)}: ${JSON.stringify(value)},`
+      : `${indent}  ${formatKey(key)}: ${formatTree(value, `${indent}  `)},`;
+  });
+
+  return lines.length ? ["{", ...lines, `${indent}}`].join("\n") : "{}";
+};
+
+/**
+ * Builds a TypeScript module for one theme.
+ * `referenceVariables` resolves aliases to concrete values and defaults to
+ * the theme's own variables. Tokens whose path is already taken are
+ * numbered and reported through `onPathCollision`.
+ */
+export const buildTypeScriptOutput = (
+  cssVariables: CSSVariable[] = [],
+  referenceVariables: CSSVariable[] = cssVariables,
+  onPathCollision?: (collision: TokenPathCollision) => void
+): string => {
+  const variablesByName = new Map<string, CSSVariable>();
+  cssVariables.concat(referenceVariables).forEach((variable) => {
+    if (!variablesByName.has(variable.name)) {
+      variablesByName.set(variable.name, variable);
+    }
+  });
+
+  const tree: TokenTree = {};
+  const variableMap: string[] = [];
+  const exportTimestamp = new Date().toISOString();
+
+  cssVariables
+    .map((variable) => ({ variable, path: getTokenPath(variable) }))
+    .filter(({ path }) => path.length > 0)
+    .sort((a, b) => a.path.join(".").localeCompare(b.path.join(".")))
+    .forEach(({ variable, path }) => {
+      const resolvedPath = insertValue(
+        tree,
+        path,
+        resolveValue(variable, variablesByName)
+      ).join(".");
+
+      if (resolvedPath !== path.join(".")) {
+        console.warn(
+          `⚠️ TypeScript token path "${path.join(".")}" is taken, exporting ${variable.name} as "${resolvedPath}"`
+        );
+        onPathCollision?.({
+          variable: variable.name,
+          path: path.join("."),
+          resolvedPath,
+        });
+      }
+      variableMap.push(
+        `  ${JSON.stringify(resolvedPath)}: ${JSON.stringify(`var(${variable.name})`)},`
+      );
+    });
+
+  return [
+    "/*",
+    " * Design tokens exported from Figma",
+    ` * Exported at: ${exportTimestamp}`,
+    " * Format: TypeScript token module",
+    " */",
+    "",
+    `export const tokens = ${formatTree(tree, "")} as const;`,
+    "",
+    "type Widen<T> = T extends string",
+    "  ? string",
+    "  : T extends boolean",
+    "    ? boolean",
+    "    : { readonly [K in keyof T]: Widen<T[K]> };",
+    "",
+    "/** Shape shared by every exported theme module */",
+    "export type Theme = Widen<typeof tokens>;",
+    "",
+    "/** Token path → CSS custom property reference */",
+    variableMap.length
+      ? ["export const cssVariables = {", ...variableMap, "} as const;"].join("\n")
+      : "export const cssVariables = {} as const;",
+    "",
+    "export type TokenPath = keyof typeof cssVariables;",
+    "",
+  ].join("\n");
+};
@@ -0,0 +1,235 @@
+/**
+ * Typography composite service
+ * Groups font variables that share a Figma path (e.g. `Heading/H1/fontSize`)
+ * into text styles and formats their composite outputs.
+ */
+
+import "../types/figma.types";
+import {
+  ConversionOptions,
+  CSSVariable,
+  TypographyGroup,
+  TypographyProperty,
+} from "../types/index";
+import { TYPOGRAPHY_PROPERTY_KEYWORDS } from "../constants/token-patterns";
+import { cleanVariableNameToKebabCase } from "../helpers/string.helper";
+import { generateCSSVariableName } from "./variable-naming.service";
+
+/** Scopes that identify a typography member when its name doesn't */
+const TYPOGRAPHY_SCOPES: Partial<Record<VariableScope, TypographyProperty>> = {
+  FONT_FAMILY: "fontFamily",
+  FONT_SIZE: "fontSize",
+  FONT_WEIGHT: "fontWeight",
+  LINE_HEIGHT: "lineHeight",
+  LETTER_SPACING: "letterSpacing",
+};
+
+const getTypographyProperty = (
+  scopes: VariableScope[] | undefined,
+  segment: string
+): TypographyProperty | undefined => {
+  const normalized = segment.toLowerCase().replace(/[^a-z]/g, "");
+  const byName = TYPOGRAPHY_PROPERTY_KEYWORDS[normalized];
+  if (byName) {
+    return byName;
+  }
+
+  return scopes && scopes.length === 1 ? TYPOGRAPHY_SCOPES[scopes[0]] : undefined;
+};
+
+/** Font size variable id of each letter spacing variable's text style */
+const fontSizeIdsByLetterSpacingId = new Map<string, string>();
+
+/**
+ * Registers the font size next to every letter spacing variable of the
+ * current conversion run (`Heading/H1/letterSpacing` →
+ * `Heading/H1/fontSize`), so letter spacing can be written in em
+ */
+export const registerTextStyleFontSizes = async (
+  collections: VariableCollection[]
+): Promise<void> => {
+  fontSizeIdsByLetterSpacingId.clear();
+
+  for (const collection of collections) {
+    const groups = new Map<string, Partial<Record<TypographyProperty, string>>>();
+    for (const variableId of collection.variableIds) {
+      const variable = await figma.variables.getVariableByIdAsync(variableId);
+      const segments = variable ? variable.name.split("/") : [];
+      if (!variable || segments.length < 2) {
+        continue;
+      }
+
+      const property = getTypographyProperty(
+        variable.scopes,
+        segments[segments.length - 1]
+      );
+      if (property === "fontSize" || property === "letterSpacing") {
+        const groupPath = segments.slice(0, -1).join("/");
+        const group = groups.get(groupPath) || {};
+        group[property] = group[property] || variable.id;
+        groups.set(groupPath, group);
+      }
+    }
+
+    groups.forEach((group) => {
+      if (group.letterSpacing && group.fontSize) {
+        fontSizeIdsByLetterSpacingId.set(group.letterSpacing, group.fontSize);
+      }
+    });
+  }
+};
+
+/**
+ * Font size variable id of a letter spacing variable's text style, if any
+ */
+export const getTextStyleFontSizeId = (
+  letterSpacingId: string
+): string | undefined => fontSizeIdsByLetterSpacingId.get(letterSpacingId);
+
+/**
+ * Detects text styles among the converted variables. A group needs at
+ * least a font family and a font size, the minimum for the `font`
+ * shorthand.
+ */
+export const detectTypographyGroups = (
+  variables: CSSVariable[],
+  options: ConversionOptions = { namingConvention: "camel-case" }
+): TypographyGroup[] => {
+  const groups = new Map<
+    string,
+    { path: string; collection: string; members: TypographyGroup["members"] }
+  >();
+  const variableNames = new Set(variables.map((variable) => variable.name));
+
+  variables.forEach((variable) => {
+    const path = variable.source?.path;
+    if (!path) {
+      return;
+    }
+
+    const segments = path.split("/");
+    if (segments.length < 2) {
+      return;
+    }
+
+    const property = getTypographyProperty(
+      variable.source?.scopes,
+      segments[segments.length - 1]
+    );
+    if (!property) {
+      return;
+    }
+
+    const groupPath = segments.slice(0, -1).join("/");
+    const collection = variable.source?.collection || "";
+    const key = `${collection}\u0000${groupPath}`;
+    const group = groups.get(key) || { path: groupPath, collection, members: {} };
+
+    if (!group.members[property]) {
+      group.members[property] = variable.name;
+    }
+    groups.set(key, group);
+  });
+
+  const complete = Array.from(groups.values()).filter(
+    (group) => group.members.fontFamily && group.members.fontSize
+  );
+
+  const toSlug = (path: string) => cleanVariableNameToKebabCase(path);
+  const lastSegmentCounts = new Map<string, number>();
+  complete.forEach((group) => {
+    const slug = toSlug(group.path.split("/").pop() || group.path);
+    lastSegmentCounts.set(slug, (lastSegmentCounts.get(slug) || 0) + 1);
+  });
+
+  return complete
+    .map((group) => {
+      const shortSlug = toSlug(group.path.split("/").pop() || group.path);
+      let name = generateCSSVariableName(
+        group.collection,
+        `${group.path}/font`,
+        options.namingConvention,
+        options
+      );
+      if (variableNames.has(name)) {
+        name = generateCSSVariableName(
+          group.collection,
+          `${group.path}/font shorthand`,
+          options.namingConvention,
+          options
+        );
+      }
+
+      return {
+        path: group.path,
+        slug:
+          lastSegmentCounts.get(shortSlug) === 1 ? shortSlug : toSlug(group.path),
+        name,
+        members: group.members,
+      };
+    })
+    .sort((a, b) => a.path.localeCompare(b.path));
+};
+
+/**
+ * Keeps the groups whose family and size are present in a theme's
+ * variables, dropping optional members that are missing.
+ */
+export const filterTypographyGroups = (
+  groups: TypographyGroup[],
+  variables: CSSVariable[]
+): TypographyGroup[] => {
+  const names = new Set(variables.map((variable) => variable.name));
+
+  return groups
+    .map((group) => {
+      const members: TypographyGroup["members"] = {};
+      (Object.keys(group.members) as TypographyProperty[]).forEach((property) => {
+        const member = group.members[property];
+        if (member && names.has(member)) {
+          members[property] = member;
+        }
+      });
+      return { ...group, members };
+    })
+    .filter((group) => group.members.fontFamily && group.members.fontSize);
+};
+
+/**
+ * Formats the `font` shorthand: [weight] size[/line-height] family.
+ * `reference` maps a member custom property to the expression to use.
+ */
+export const formatFontShorthand = (
+  group: TypographyGroup,
+  reference: (memberName: string) => string = (memberName) =>
+    `var(${memberName})`
+): string => {
+  const { fontWeight, fontSize, lineHeight, fontFamily } = group.members;
+  const size = fontSize ? reference(fontSize) : "";
+
+  return [
+    fontWeight ? reference(fontWeight) : "",
+    lineHeight ? `${size}/${reference(lineHeight)}` : size,
+    fontFamily ? reference(fontFamily) : "",
+  ]
+    .filter((part) => part.length > 0)
+    .join(" ");
+};
+
+/** CSS longhand property for each typography member */
+export const TYPOGRAPHY_CSS_PROPERTIES: Record<TypographyProperty, string> = {
+  fontFamily: "font-family",
+  fontSize: "font-size",
+  fontWeight: "font-weight",
+  lineHeight: "line-height",
+  letterSpacing: "letter-spacing",
+};
+
+/** Member order used by every composite output */
+export const TYPOGRAPHY_PROPERTY_ORDER: TypographyProperty[] = [
+  "fontFamily",
+  "fontSize",
+  "fontWeight",
+  "lineHeight",
+  "letterSpacing",
+];
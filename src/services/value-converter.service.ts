@@ -4,15 +4,38 @@
 
 import "../types/figma.types";
 import {
-  convertColorToOklch
-} from "../helpers/color.helper";
-import { pxToRem, isValidNumber, clamp } from "../helpers/numeric.helper";
+  ClassificationRule,
+  ConversionOptions,
+  DimensionCategory,
+  FluidOptions,
+} from "../types/index";
+import { convertColor } from "../helpers/color.helper";
+import {
+  formatDimension,
+  isValidNumber,
+  clamp,
+  roundToDecimals,
+} from "../helpers/numeric.helper";
 import { sanitizeString, hasPotentiallyUnsafeChars } from "../helpers/string.helper";
+import {
+  detectDimensionCategory,
+  resolveScopeMapping,
+} from "./variable-type-detector.service";
+import {
+  applyClassificationTransform,
+  findClassificationRule,
+} from "./classification-rules.service";
+import { resolveMappedMode } from "./mode-mapping.service";
 import {
   FALLBACK_OKLCH_COLOR,
+  BASE_FONT_SIZE,
   MIN_FONT_WEIGHT,
   MAX_FONT_WEIGHT,
+  MAX_LINE_HEIGHT_RATIO,
+  DEFAULT_FLUID_MIN_VIEWPORT,
+  DEFAULT_FLUID_MAX_VIEWPORT,
 } from "../constants/conversion.constants";
+import { ScopeMapping } from "../constants/scope-mappings";
 import {
   OPACITY_KEYWORDS,
   WEIGHT_KEYWORDS,
@@ -20,35 +43,176 @@ import {
   ZINDEX_KEYWORDS,
 } from "../constants/token-patterns";
 
+/**
+ * Fallback color (black) in the configured color format
+ */
+export const getFallbackColor = (options?: ConversionOptions): string => {
+  try {
+    return convertColor(
+      { r: 0, g: 0, b: 0 },
+      options?.colorFormat,
+      options?.colorPrecision
+    );
+  } catch (_error) {
+    return FALLBACK_OKLCH_COLOR;
+  }
+};
+
 /**
  * Safe color conversion with fallback
  */
 export const safeColorConversion = (
   colorValue: RGB | RGBA,
-  variableName: string
+  variableName: string,
+  options?: ConversionOptions
 ): string => {
   try {
     if (!colorValue || typeof colorValue !== "object") {
       console.warn(
         `⚠️ Invalid color value for ${variableName}, using fallback`
       );
-      return FALLBACK_OKLCH_COLOR;
+      return getFallbackColor(options);
     }
 
-    return convertColorToOklch(colorValue);
+    return convertColor(
+      colorValue,
+      options?.colorFormat,
+      options?.colorPrecision
+    );
   } catch (error) {
     console.error(`❌ Error converting color for ${variableName}:`, error);
-    return FALLBACK_OKLCH_COLOR;
+    return getFallbackColor(options);
   }
 };
 
 /**
- * Safe float conversion with validation
+ * Formats a 0–1 opacity as a percentage. Values above 1 are read as a
+ * 0–100 percentage, which is how Figma stores OPACITY-scoped variables.
+ */
+const formatOpacity = (
+  floatValue: number,
+  variableName: string,
+  allowPercentScale: boolean
+): string => {
+  const ratio =
+    allowPercentScale && floatValue > 1 ? floatValue / 100 : floatValue;
+  const clampedValue = clamp(ratio, 0, 1);
+  if (clampedValue !== ratio) {
+    console.warn(
+      `⚠️ Opacity value clamped for ${variableName}: ${floatValue} → ${clampedValue}`
+    );
+  }
+  return `${Math.round(clampedValue * 100)}%`;
+};
+
+const formatFontWeight = (floatValue: number, variableName: string): string => {
+  const roundedValue = Math.round(floatValue);
+  if (roundedValue < MIN_FONT_WEIGHT || roundedValue > MAX_FONT_WEIGHT) {
+    console.warn(
+      `⚠️ Font weight out of standard range for ${variableName}: ${roundedValue}`
+    );
+  }
+  return roundedValue.toString();
+};
+
+/**
+ * Converts pixels using the unit policy (rem unless overridden)
+ */
+const formatPixelValue = (
+  floatValue: number,
+  variableName: string,
+  dimensionCategory: DimensionCategory | null,
+  options?: ConversionOptions
+): string => {
+  const unit =
+    (dimensionCategory && options?.unitOverrides?.[dimensionCategory]) ||
+    options?.dimensionUnit ||
+    "rem";
+  const rootFontSize = options?.rootFontSize || BASE_FONT_SIZE;
+
+  if (floatValue < 0) {
+    console.warn(
+      `⚠️ Negative pixel value for ${variableName}: ${floatValue}, using absolute value`
+    );
+    return formatDimension(Math.abs(floatValue), unit, rootFontSize);
+  }
+
+  return formatDimension(floatValue, unit, rootFontSize);
+};
+
+/**
+ * Formats a FLOAT with the unit assigned by a classification rule
+ */
+const formatRuleUnit = (
+  floatValue: number,
+  unit: NonNullable<ClassificationRule["unit"]>,
+  options?: ConversionOptions
+): string => {
+  switch (unit) {
+    case "percent":
+      return `${roundToDecimals(floatValue * 100, 2)}%`;
+    case "ms":
+      return `${roundToDecimals(floatValue, 2)}ms`;
+    default:
+      return formatDimension(
+        floatValue,
+        unit,
+        options?.rootFontSize || BASE_FONT_SIZE
+      );
+  }
+};
+
+/**
+ * Formats a FLOAT whose meaning is known from its Figma scopes
+ */
+const formatScopedFloat = (
+  floatValue: number,
+  variableName: string,
+  scopeMapping: ScopeMapping,
+  options?: ConversionOptions,
+  fontSize?: number
+): string => {
+  switch (scopeMapping.unit) {
+    case "percent":
+      return formatOpacity(floatValue, variableName, true);
+    case "font-weight":
+      return formatFontWeight(floatValue, variableName);
+    case "em":
+      // Negative letter-spacing is common, so keep the sign. em needs the
+      // text style's font size; without one px is the only exact unit
+      return fontSize
+        ? `${roundToDecimals(floatValue / fontSize, 3)}em`
+        : formatDimension(floatValue, "px");
+    case "unitless":
+      // Figma line heights are usually px; only small values are ratios
+      if (floatValue > MAX_LINE_HEIGHT_RATIO) {
+        return formatPixelValue(floatValue, variableName, null, options);
+      }
+      return `${roundToDecimals(floatValue, 3)}`;
+    case "dimension":
+    default:
+      return formatPixelValue(
+        floatValue,
+        variableName,
+        scopeMapping.dimensionCategory || null,
+        options
+      );
+  }
+};
+
+/**
+ * Safe float conversion with validation.
+ * A matching classification rule is applied first, then Figma scopes decide
+ * the unit when present; name keywords are the fallback. `fontSize` is
+ * the px font size of the variable's text style, used for em letter
+ * spacing.
  */
 export const safeFloatConversion = (
   floatValue: number,
   variableName: string,
-  _variable: Variable
+  variable: Variable,
+  options?: ConversionOptions,
+  fontSize?: number
 ): string => {
   try {
     if (!isValidNumber(floatValue)) {
@@ -58,28 +222,35 @@ export const safeFloatConversion = (
       return "0";
     }
 
+    const rule = findClassificationRule(variable, options?.classificationRules);
+    if (rule) {
+      floatValue = applyClassificationTransform(floatValue, rule.transform);
+      if (rule.unit) {
+        return formatRuleUnit(floatValue, rule.unit, options);
+      }
+    }
+
+    const scopeMapping = resolveScopeMapping(variable?.scopes);
+    if (scopeMapping) {
+      return formatScopedFloat(
+        floatValue,
+        variableName,
+        scopeMapping,
+        options,
+        fontSize
+      );
+    }
+
     const variableNameLower = variableName.toLowerCase();
 
     // Opacity/alpha values
     if (OPACITY_KEYWORDS.some((keyword) => variableNameLower.includes(keyword))) {
-      const clampedValue = clamp(floatValue, 0, 1);
-      if (clampedValue !== floatValue) {
-        console.warn(
-          `⚠️ Opacity value clamped for ${variableName}: ${floatValue} → ${clampedValue}`
-        );
-      }
-      return `${Math.round(clampedValue * 100)}%`;
+      return formatOpacity(floatValue, variableName, false);
     }
 
     // Font weight values
     if (WEIGHT_KEYWORDS.some((keyword) => variableNameLower.includes(keyword))) {
-      const roundedValue = Math.round(floatValue);
-      if (roundedValue < MIN_FONT_WEIGHT || roundedValue > MAX_FONT_WEIGHT) {
-        console.warn(
-          `⚠️ Font weight out of standard range for ${variableName}: ${roundedValue}`
-        );
-      }
-      return roundedValue.toString();
+      return formatFontWeight(floatValue, variableName);
     }
 
     // Duration/timing values
@@ -99,21 +270,73 @@ export const safeFloatConversion = (
       return roundedValue.toString();
     }
 
-    // Default: convert pixels to rem
-    if (floatValue < 0) {
-      console.warn(
-        `⚠️ Negative pixel value for ${variableName}: ${floatValue}, using absolute value`
-      );
-      return pxToRem(Math.abs(floatValue));
-    }
-
-    return pxToRem(floatValue);
+    return formatPixelValue(
+      floatValue,
+      variableName,
+      detectDimensionCategory(variableName),
+      options
+    );
   } catch (error) {
     console.error(`❌ Error converting float for ${variableName}:`, error);
     return "0";
   }
 };
 
+const FLUID_DIMENSION_PATTERN = /^(-?\d*\.?\d+)(px|rem|em)$/;
+
+/**
+ * Builds `clamp(min, calc(intercept + slope * 100vw), max)` between two
+ * converted dimensions in the same unit. Returns null for anything that
+ * isn't a dimension pair, such as opacities or durations.
+ * `bounds` replaces the min/max literals (e.g. with `var()` references)
+ * while the slope is still computed from the resolved values.
+ */
+export const toFluidClamp = (
+  minValue: string,
+  maxValue: string,
+  fluid: FluidOptions,
+  rootFontSize = BASE_FONT_SIZE,
+  bounds: { min?: string; max?: string } = {}
+): string | null => {
+  const minMatch = minValue.trim().match(FLUID_DIMENSION_PATTERN);
+  const maxMatch = maxValue.trim().match(FLUID_DIMENSION_PATTERN);
+  if (!minMatch || !maxMatch || minMatch[2] !== maxMatch[2]) {
+    return null;
+  }
+
+  const minViewport = fluid.minViewport || DEFAULT_FLUID_MIN_VIEWPORT;
+  const maxViewport = fluid.maxViewport || DEFAULT_FLUID_MAX_VIEWPORT;
+  if (maxViewport <= minViewport) {
+    console.warn(
+      `⚠️ Fluid max viewport (${maxViewport}px) must be larger than min viewport (${minViewport}px)`
+    );
+    return null;
+  }
+
+  const unit = minMatch[2];
+  const pxPerUnit = unit === "px" ? 1 : rootFontSize;
+  const minPx = parseFloat(minMatch[1]) * pxPerUnit;
+  const maxPx = parseFloat(maxMatch[1]) * pxPerUnit;
+
+  if (minPx === maxPx) {
+    return minValue.trim();
+  }
+
+  const slope = (maxPx - minPx) / (maxViewport - minViewport);
+  const interceptPx = minPx - slope * minViewport;
+  const format = (px: number) => `${roundToDecimals(px / pxPerUnit, 4)}${unit}`;
+  const minBound = bounds.min || format(minPx);
+  const maxBound = bounds.max || format(maxPx);
+
+  // A shrinking scale still needs the smaller bound first
+  const [lower, upper] =
+    minPx < maxPx ? [minBound, maxBound] : [maxBound, minBound];
+  return `clamp(${lower}, calc(${format(interceptPx)} + ${roundToDecimals(
+    slope * 100,
+    4
+  )}vw), ${upper})`;
+};
+
 /**
  * Safe string conversion with sanitization
  * Does NOT add quotes so complex CSS values remain intact
@@ -151,6 +374,24 @@ export const safeStringConversion = (
   }
 };
 
+/**
+ * Safe boolean conversion. Values stay `true`/`false` here; the builders
+ * apply the export's boolean strategy.
+ */
+export const safeBooleanConversion = (
+  booleanValue: boolean,
+  variableName: string
+): string => {
+  if (typeof booleanValue !== "boolean") {
+    console.warn(
+      `⚠️ Invalid boolean value for ${variableName}: ${booleanValue}, using false`
+    );
+    return "false";
+  }
+
+  return booleanValue ? "true" : "false";
+};
+
 /**
  * Resolves a variable alias to its raw value.
  *
@@ -163,7 +404,8 @@ export async function resolveAliasToRawValue(
   aliasedVariable: Variable,
   modeId: string,
   collectionName: string,
-  modeName?: string
+  modeName?: string,
+  options?: ConversionOptions
 ): Promise<string | null> {
   try {
     const valuesByMode = aliasedVariable.valuesByMode;
@@ -180,7 +422,9 @@ export async function resolveAliasToRawValue(
         await figma.variables.getVariableCollectionByIdAsync(
           aliasedVariable.variableCollectionId
         );
-      const match = aliasedCollection?.modes.find((m) => m.name === modeName);
+      const match = aliasedCollection
+        ? resolveMappedMode(aliasedCollection, modeName, options?.modeMapping)
+        : undefined;
       if (match) {
         resolvedModeId = match.modeId;
         rawValue = valuesByMode[resolvedModeId];
@@ -190,6 +434,9 @@ export async function resolveAliasToRawValue(
     if (rawValue === undefined) {
       const firstModeId = Object.keys(valuesByMode)[0];
       if (firstModeId) {
+        console.warn(
+          `⚠️ No mode mapped for "${modeName ?? modeId}" when resolving ${aliasedVariable.name}, using its first mode`
+        );
         resolvedModeId = firstModeId;
         rawValue = valuesByMode[firstModeId];
       }
@@ -211,7 +458,8 @@ export async function resolveAliasToRawValue(
           nestedVariable,
           resolvedModeId,
           collectionName,
-          modeName
+          modeName,
+          options
         );
       }
       return null;
@@ -221,16 +469,25 @@ export async function resolveAliasToRawValue(
     switch (aliasedVariable.resolvedType) {
       case 'COLOR': {
         const colorValue = rawValue as RGB | RGBA;
-        return safeColorConversion(colorValue, aliasedVariable.name);
+        return safeColorConversion(colorValue, aliasedVariable.name, options);
       }
       case 'FLOAT': {
         const floatValue = rawValue as number;
-        return safeFloatConversion(floatValue, aliasedVariable.name, aliasedVariable);
+        return safeFloatConversion(
+          floatValue,
+          aliasedVariable.name,
+          aliasedVariable,
+          options
+        );
       }
       case 'STRING': {
         const stringValue = rawValue as string;
         return safeStringConversion(stringValue, aliasedVariable.name);
       }
+      case 'BOOLEAN': {
+        const booleanValue = rawValue as boolean;
+        return safeBooleanConversion(booleanValue, aliasedVariable.name);
+      }
       default:
         return String(rawValue);
     }
@@ -10,17 +10,40 @@ import {
   VariablesByTheme,
   CSSVariable,
 } from "../types/index";
-import { generateCSSValue } from "./css-value-generator.service";
-import { generateCSSVariableName } from "./variable-naming.service";
+import {
+  findFluidModes,
+  generateCSSValue,
+  generateFluidCSSValue,
+} from "./css-value-generator.service";
+import {
+  generateCSSNamePrefix,
+  generateTokenPath,
+  getVariableCSSName,
+} from "./variable-naming.service";
 import { detectVariableType } from "./variable-type-detector.service";
 import {
-  getCachedCSSVariableName,
+  detectTypographyGroups,
+  registerTextStyleFontSizes,
+} from "./typography.service";
+import { getThemesForMode } from "./mode-mapping.service";
+import { buildVariableNameMap } from "./name-collision.service";
+import { importLibraryCollections } from "./team-library.service";
+import {
+  describeSelection,
+  selectCollections,
+} from "./variable-selection.service";
+import {
+  findClassificationRule,
+  registerCollectionNames,
+} from "./classification-rules.service";
+import {
   getPooledVariableObject,
   clearAllCaches,
 } from "../helpers/cache.helper";
 import {
   VARIABLE_BATCH_SIZE,
   SYNTAX_BATCH_SIZE,
+  FLUID_THEME_NAME,
 } from "../constants/conversion.constants";
 
 /**
@@ -32,7 +55,8 @@ async function processBatchOfVariables(
   allModes: Record<string, string>,
   variablesByTheme: VariablesByTheme,
   options: ConversionOptions,
-  exportedIds: Set<string>
+  exportedNames: Map<string, string>,
+  tokenPaths: Map<string, string>
 ): Promise<void> {
   const promises = variableIds.map(async (variableId) => {
     try {
@@ -45,47 +69,99 @@ async function processBatchOfVariables(
         return;
       }
 
-      const cssVariableName = getCachedCSSVariableName(
-        collection.name,
-        variable.name,
-        (collectionName, currentVariableName) =>
-          generateCSSVariableName(
-            collectionName,
-            currentVariableName,
-            options.namingConvention
-          ),
-        options.namingConvention
+      const cssVariableName =
+        exportedNames.get(variable.id) ||
+        getVariableCSSName(collection.name, variable.name, options);
+      const namePrefix = generateCSSNamePrefix(collection.name, options);
+      const tokenPath =
+        tokenPaths.get(variable.id) ||
+        generateTokenPath(collection.name, variable.name, options);
+
+      const rule = findClassificationRule(
+        variable,
+        options.classificationRules
       );
 
-      // Process variable for each theme/mode
-      const variableModes = Object.keys(variable.valuesByMode || {});
+      // Process variable for each selected theme/mode
+      const variableModes = Object.keys(variable.valuesByMode || {}).filter(
+        (modeId) =>
+          !collection.modes ||
+          collection.modes.some((mode) => mode.modeId === modeId)
+      );
+      const fluidModes = findFluidModes(collection, options);
+      const defaultMode =
+        collection.modes.find(
+          (mode) => mode.modeId === collection.defaultModeId
+        ) || collection.modes[0];
 
       for (const modeId of variableModes) {
-        const modeName = allModes[modeId] || "default";
-        const cssValue = await generateCSSValue(
-          variable,
-          modeId,
-          collection.name,
-          modeName,
-          options.namingConvention,
-          exportedIds
-        );
+        // The max mode is folded into the min mode's clamp() values
+        if (fluidModes && modeId === fluidModes.max.modeId) {
+          continue;
+        }
+
+        const isFluid = fluidModes?.min.modeId === modeId;
+        const modeName = isFluid
+          ? FLUID_THEME_NAME
+          : allModes[modeId] || "default";
+        const cssValue =
+          fluidModes && isFluid
+            ? await generateFluidCSSValue(
+                variable,
+                fluidModes.min,
+                fluidModes.max,
+                collection.name,
+                options,
+                exportedNames
+              )
+            : await generateCSSValue(
+                variable,
+                modeId,
+                collection.name,
+                modeName,
+                options,
+                exportedNames
+              );
 
         if (cssValue) {
-          if (!variablesByTheme[modeName]) {
-            variablesByTheme[modeName] = [];
+          // Mapped modes land in the theme of every source mode using them
+          const themeNames = isFluid
+            ? [modeName]
+            : getThemesForMode(collection.name, modeName, options.modeMapping);
+
+          for (const themeName of themeNames) {
+            if (!variablesByTheme[themeName]) {
+              variablesByTheme[themeName] = [];
+            }
+
+            // Use object pooling to reduce garbage collection
+            const variableObj = getPooledVariableObject();
+            variableObj.name = cssVariableName;
+            variableObj.value = cssValue;
+            variableObj.type = detectVariableType(
+              variable.name,
+              variable.scopes,
+              rule,
+              variable.resolvedType
+            );
+            variableObj.tailwindNamespace = rule?.tailwindNamespace;
+            variableObj.namePrefix = namePrefix;
+            variableObj.variable = variable;
+            variableObj.source = {
+              id: variable.id,
+              path: variable.name,
+              tokenPath,
+              collection: collection.name,
+              mode: isFluid && fluidModes ? fluidModes.min.name : modeName,
+              defaultMode: defaultMode?.name,
+              resolvedType: variable.resolvedType,
+              scopes: variable.scopes,
+            };
+
+            variablesByTheme[themeName].push(variableObj);
+
+            console.log(`✅ [${themeName}] ${cssVariableName}: ${cssValue}`);
           }
-
-          // Use object pooling to reduce garbage collection
-          const variableObj = getPooledVariableObject();
-          variableObj.name = cssVariableName;
-          variableObj.value = cssValue;
-          variableObj.type = detectVariableType(variable.name);
-          variableObj.variable = variable;
-
-          variablesByTheme[modeName].push(variableObj);
-
-          console.log(`✅ [${modeName}] ${cssVariableName}: ${cssValue}`);
         } else {
           console.warn(
             `⚠️ Could not generate CSS value for ${variable.name} in mode ${modeName}`
@@ -113,7 +189,8 @@ async function updateFigmaSyntax(variables: ProcessedVariable[]): Promise<void>
 
     for (const cssVar of batch) {
       try {
-        if (cssVar.variable) {
+        // Library variables are read-only in this file
+        if (cssVar.variable && !cssVar.variable.remote) {
           cssVar.variable.setVariableCodeSyntax("WEB", `var(${cssVar.name})`);
           syntaxUpdateCount++;
         }
@@ -148,16 +225,44 @@ export async function convertVariablesToCSS(
       );
     }
 
-    const collections: VariableCollection[] =
+    const localCollections: VariableCollection[] =
       await figma.variables.getLocalVariableCollectionsAsync();
+    const libraryCollections = await importLibraryCollections(
+      options.libraryCollectionKeys || []
+    );
 
-    if (collections.length === 0) {
+    if (localCollections.length === 0 && libraryCollections.length === 0) {
       throw new Error(
         "No variable collections found! Create some variables first."
       );
     }
 
-    console.log(`📊 Found ${collections.length} variable collection(s)`);
+    console.log(
+      `📊 Found ${localCollections.length} variable collection(s) and ${libraryCollections.length} library collection(s)`
+    );
+
+    registerCollectionNames(localCollections.concat(libraryCollections));
+
+    const localSelection = await selectCollections(localCollections, options);
+    // Collection checkboxes only list local collections
+    const librarySelection = await selectCollections(libraryCollections, {
+      ...options,
+      collectionIds: undefined,
+    });
+    const emitLibraryTokens = options.libraryTokens === "emit";
+    const collections = emitLibraryTokens
+      ? localSelection.collections.concat(librarySelection.collections)
+      : localSelection.collections;
+    const referencedCollections = emitLibraryTokens
+      ? []
+      : librarySelection.collections;
+    const hidden = localSelection.hidden.concat(librarySelection.hidden);
+
+    if (collections.length === 0) {
+      throw new Error(
+        "No variables match the selected collections, modes and name filters."
+      );
+    }
 
     const variablesByTheme: VariablesByTheme = {};
 
@@ -198,17 +303,22 @@ export async function convertVariablesToCSS(
       `🔄 Processing ${totalVariables} variables in batches of ${VARIABLE_BATCH_SIZE}...`
     );
 
-    // Precompute the set of variable IDs that will actually be emitted.
-    // The alias-reference path uses this to detect "orphan" alias targets
-    // (variables whose id exists but which no collection owns) and walk
-    // past them, so we never emit `var(--…)` to a name that has no
-    // corresponding declaration in the output.
-    const exportedIds = new Set<string>();
-    for (const collection of collections) {
-      for (const vid of collection.variableIds) {
-        exportedIds.add(vid);
-      }
-    }
+    // Precompute the final CSS name of every variable that will actually
+    // be emitted, with collisions resolved. The alias-reference path uses
+    // this to detect "orphan" alias targets (variables whose id exists but
+    // which no collection owns) and walk past them, so we never emit
+    // `var(--…)` to a name that has no corresponding declaration in the
+    // output. Referenced library tokens are named too: their declarations
+    // are expected to come from the library's own package.
+    const {
+      names: exportedNames,
+      tokenPaths,
+      collisions,
+    } = await buildVariableNameMap(
+      collections.concat(referencedCollections),
+      options
+    );
+    await registerTextStyleFontSizes(collections);
 
     for (const collection of collections) {
       console.log(`🔍 Processing collection: ${collection.name}`);
@@ -224,7 +334,8 @@ export async function convertVariablesToCSS(
           allModes,
           variablesByTheme,
           options,
-          exportedIds
+          exportedNames,
+          tokenPaths
         );
 
         totalProcessed += batch.length;
@@ -276,6 +387,9 @@ export async function convertVariablesToCSS(
           name: v.name,
           value: v.value,
           type: v.type,
+          source: v.source,
+          tailwindNamespace: v.tailwindNamespace,
+          namePrefix: v.namePrefix,
         });
       });
     });
@@ -286,6 +400,9 @@ export async function convertVariablesToCSS(
         name: v.name,
         value: v.value,
         type: v.type,
+        source: v.source,
+        tailwindNamespace: v.tailwindNamespace,
+        namePrefix: v.namePrefix,
       }));
     });
 
@@ -294,6 +411,14 @@ export async function convertVariablesToCSS(
       count: totalVariableCount,
       themes: Object.keys(variablesByTheme),
       variablesByTheme: themeData,
+      typography: detectTypographyGroups(allVariables, options),
+      collisions,
+      selection: describeSelection(
+        collections,
+        options,
+        referencedCollections
+      ),
+      hidden,
     };
   } catch (error) {
     console.error("Error in conversion:", error);
@@ -6,28 +6,266 @@ import {
   cleanVariableName,
   cleanVariableNameToKebabCase,
 } from "../helpers/string.helper";
-import { TokenNamingConvention } from "../types/index";
+import { getCachedCSSVariableName } from "../helpers/cache.helper";
+import {
+  ConversionOptions,
+  NameTemplate,
+  TokenNamingConvention,
+} from "../types/index";
+
+/** Prefix and template settings shared by every generated name */
+export type NameOptions = Pick<
+  ConversionOptions,
+  "namePrefix" | "collectionPrefixes" | "nameTemplate"
+>;
+
+/** Separator placed before numeric suffixes, per naming convention */
+const SUFFIX_SEPARATORS: Record<TokenNamingConvention, string> = {
+  "camel-case": "",
+  "pascal-case": "",
+  "kebab-case": "-",
+  "snake-case": "_",
+  "constant-case": "_",
+};
+
+/** Matches {collection}, {name}, {path}, {path[1]}, {path[1:]}, {path[:-1]} */
+const TEMPLATE_PLACEHOLDER_PATTERN =
+  /\{(collection|name|path)(?:\[(-?\d*)(?::(-?\d*))?\])?\}/g;
+
+const WORD_SEPARATOR_PATTERN = /[\s\-_]+/;
 
 /**
- * Generates a CSS custom property name from a Figma variable
- * Format: --{cleanName} in camelCase (e.g., --btnBg, --spacingMd, --bodyFamily)
- * Converts Figma variable names to camelCase without type prefixes
+ * Returns the prefix path for a collection: the global prefix followed by
+ * the collection's own prefix, e.g. "acme/core". Dashes around the
+ * configured values are dropped, so "--acme-" and "acme" are the same.
  */
-export const generateCSSVariableName = (
-  _collectionName: string,
+export const getNamePrefixPath = (
+  collectionName: string,
+  nameOptions: NameOptions = {}
+): string =>
+  [nameOptions.namePrefix, nameOptions.collectionPrefixes?.[collectionName]]
+    .map((prefix) => (prefix || "").trim().replace(/^-+|-+$/g, ""))
+    .filter((prefix) => prefix.length > 0)
+    .join("/");
+
+/**
+ * Renames a segment through the lookup table (case-insensitive keys)
+ */
+const renameSegment = (
+  segment: string,
+  renames: Record<string, string>
+): string => {
+  const key = Object.keys(renames).find(
+    (candidate) => candidate.toLowerCase() === segment.toLowerCase()
+  );
+  return key === undefined ? segment : renames[key];
+};
+
+/**
+ * Removes the strip words from a segment; words are separated by spaces,
+ * dashes or underscores
+ */
+const stripSegmentWords = (segment: string, stripWords: string[]): string => {
+  if (stripWords.length === 0) {
+    return segment;
+  }
+
+  const stripped = stripWords.map((word) => word.trim().toLowerCase());
+  return segment
+    .split(WORD_SEPARATOR_PATTERN)
+    .filter((word) => !stripped.includes(word.toLowerCase()))
+    .join(" ");
+};
+
+/**
+ * Picks the placeholder's path segments, Python-style: a single index or
+ * a slice, negative values counting from the end
+ */
+const selectPathSegments = (
+  segments: string[],
+  start: string | undefined,
+  end: string | undefined,
+  isSlice: boolean
+): string[] => {
+  if (start === undefined) {
+    return segments;
+  }
+
+  const toIndex = (value: string) => parseInt(value, 10);
+  if (!isSlice) {
+    const index = toIndex(start);
+    const segment = segments[index < 0 ? segments.length + index : index];
+    return segment === undefined ? [] : [segment];
+  }
+
+  return segments.slice(
+    start ? toIndex(start) : 0,
+    end ? toIndex(end) : undefined
+  );
+};
+
+/**
+ * Rewrites a Figma variable path with the name template: drops leading
+ * segments, renames segments, strips words, then fills the template.
+ * `{path}` is every segment but the last, `{name}` the last one.
+ * Example: "Colors/Brand/500" with { template: "ds/{path}/{name}",
+ * renameSegments: { Colors: "color" } } → "ds/color/Brand/500"
+ */
+export const applyNameTemplate = (
+  collectionName: string,
   variableName: string,
-  namingConvention: TokenNamingConvention = "camel-case"
+  nameTemplate?: NameTemplate
 ): string => {
-  if (namingConvention === "kebab-case") {
-    return `--${cleanVariableNameToKebabCase(variableName)}`;
+  if (!nameTemplate) {
+    return variableName;
   }
 
-  let cleanVariable = cleanVariableName(variableName);
+  const renames = nameTemplate.renameSegments || {};
+  const segments = variableName
+    .split("/")
+    .slice(Math.max(0, nameTemplate.dropSegments || 0))
+    .map((segment) => renameSegment(segment.trim(), renames))
+    .map((segment) => stripSegmentWords(segment, nameTemplate.stripWords || []))
+    .filter((segment) => segment.trim().length > 0);
 
-  // Convert first character to lowercase for camelCase
-  if (cleanVariable.length > 0) {
-    cleanVariable = cleanVariable.charAt(0).toLowerCase() + cleanVariable.slice(1);
+  if (!nameTemplate.template) {
+    return segments.join("/");
   }
 
-  return `--${cleanVariable}`;
+  const pathSegments = segments.slice(0, -1);
+  const name = segments[segments.length - 1] || "";
+  const result = nameTemplate.template.replace(
+    TEMPLATE_PLACEHOLDER_PATTERN,
+    (placeholder, key: string, start?: string, end?: string) => {
+      if (key === "collection") {
+        return renameSegment(collectionName, renames);
+      }
+      if (key === "name") {
+        return name;
+      }
+      return selectPathSegments(
+        pathSegments,
+        start,
+        end,
+        placeholder.includes(":")
+      ).join("/");
+    }
+  );
+
+  const unknown = result.match(/\{[^}]*\}/);
+  if (unknown) {
+    throw new Error(
+      `Unknown name template placeholder ${unknown[0]} in "${nameTemplate.template}"`
+    );
+  }
+
+  return result;
+};
+
+/**
+ * Formats a slash-separated path in the naming convention
+ * Example: "button/primary bg" → buttonPrimaryBg, button-primary-bg,
+ * button_primary_bg, ButtonPrimaryBg, BUTTON_PRIMARY_BG
+ */
+const formatNamePath = (
+  path: string,
+  namingConvention: TokenNamingConvention
+): string => {
+  switch (namingConvention) {
+    case "kebab-case":
+      return cleanVariableNameToKebabCase(path);
+    case "snake-case":
+      return cleanVariableNameToKebabCase(path).replace(/-/g, "_");
+    case "constant-case":
+      return cleanVariableNameToKebabCase(path).replace(/-/g, "_").toUpperCase();
+    case "pascal-case":
+      return cleanVariableName(path);
+    default: {
+      const cleanVariable = cleanVariableName(path);
+      // Convert first character to lowercase for camelCase
+      return cleanVariable.charAt(0).toLowerCase() + cleanVariable.slice(1);
+    }
+  }
 };
+
+/**
+ * Returns the variable path the output names are built from: the prefix
+ * path followed by the templated variable path
+ */
+export const generateTokenPath = (
+  collectionName: string,
+  variableName: string,
+  nameOptions: NameOptions = {}
+): string =>
+  [
+    getNamePrefixPath(collectionName, nameOptions),
+    applyNameTemplate(collectionName, variableName, nameOptions.nameTemplate),
+  ]
+    .filter((path) => path.length > 0)
+    .join("/");
+
+/**
+ * Generates a CSS custom property name from a Figma variable
+ * Format: --{prefix}{cleanName} in the naming convention (e.g., --btnBg,
+ * --acme-spacing-md), after the name template rewrote the path
+ */
+export const generateCSSVariableName = (
+  collectionName: string,
+  variableName: string,
+  namingConvention: TokenNamingConvention = "camel-case",
+  nameOptions: NameOptions = {}
+): string =>
+  `--${formatNamePath(
+    generateTokenPath(collectionName, variableName, nameOptions),
+    namingConvention
+  )}`;
+
+/**
+ * Appends a numeric suffix in the naming convention's style
+ * Example: --spacingMd → --spacingMd2, --spacing-md → --spacing-md-2
+ */
+export const appendCSSVariableNameSuffix = (
+  cssName: string,
+  suffix: number,
+  namingConvention: TokenNamingConvention = "camel-case"
+): string => `${cssName}${SUFFIX_SEPARATORS[namingConvention] ?? ""}${suffix}`;
+
+/**
+ * Returns the CSS name of a collection's prefix alone, e.g. --acme-core,
+ * or undefined when the collection has no prefix
+ */
+export const generateCSSNamePrefix = (
+  collectionName: string,
+  options: ConversionOptions
+): string | undefined => {
+  const prefixPath = getNamePrefixPath(collectionName, options);
+  return prefixPath
+    ? generateCSSVariableName("", prefixPath, options.namingConvention)
+    : undefined;
+};
+
+/**
+ * Generates a variable's CSS name through the name cache, keyed by the
+ * naming convention, prefix and template
+ */
+export const getVariableCSSName = (
+  collectionName: string,
+  variableName: string,
+  options: ConversionOptions
+): string =>
+  getCachedCSSVariableName(
+    collectionName,
+    variableName,
+    (currentCollectionName, currentVariableName) =>
+      generateCSSVariableName(
+        currentCollectionName,
+        currentVariableName,
+        options.namingConvention,
+        options
+      ),
+    [
+      options.namingConvention,
+      getNamePrefixPath(collectionName, options),
+      JSON.stringify(options.nameTemplate || {}),
+    ].join(":")
+  );
@@ -0,0 +1,149 @@
+/**
+ * Variable selection service
+ * Narrows the local collections to the collections, modes and variable
+ * names chosen for a conversion.
+ */
+
+import "../types/figma.types";
+import {
+  ConversionOptions,
+  ConversionSelection,
+  HiddenReason,
+  HiddenVariable,
+} from "../types/index";
+import { matchesPattern } from "./classification-rules.service";
+
+/** Path segments starting with `_` or `.` mark private tokens */
+const PRIVATE_SEGMENT_PATTERN = /(^|\/)\s*[_.]/;
+
+const matchesAny = (patterns: string[], values: string[]): boolean =>
+  patterns.some((pattern) => values.some((value) => matchesPattern(pattern, value)));
+
+/**
+ * Returns why a variable is hidden from the output, if it is
+ */
+const getHiddenReason = (
+  variable: Variable,
+  collection: VariableCollection
+): HiddenReason | null => {
+  if (collection.hiddenFromPublishing || PRIVATE_SEGMENT_PATTERN.test(collection.name)) {
+    return "hidden-collection";
+  }
+  if (variable.hiddenFromPublishing) {
+    return "hidden-from-publishing";
+  }
+  if (PRIVATE_SEGMENT_PATTERN.test(variable.name)) {
+    return "private-name";
+  }
+  return null;
+};
+
+/**
+ * Returns copies of the selected collections with only the selected modes
+ * and variables. Include/exclude globs are tested against the variable
+ * path and `collection/path`, so `Deprecated/**` excludes a whole
+ * collection. Hidden and private variables are left out and reported;
+ * since they aren't exported, aliases to them are inlined.
+ */
+export const selectCollections = async (
+  collections: VariableCollection[],
+  options: ConversionOptions
+): Promise<{ collections: VariableCollection[]; hidden: HiddenVariable[] }> => {
+  const collectionIds = options.collectionIds || [];
+  const modeIds = options.modeIds || [];
+  const includePatterns = options.includePatterns || [];
+  const excludePatterns = options.excludePatterns || [];
+
+  const selected: VariableCollection[] = [];
+  const hidden: HiddenVariable[] = [];
+
+  for (const collection of collections) {
+    if (collectionIds.length > 0 && !collectionIds.includes(collection.id)) {
+      console.log(`⏭️ Skipping unselected collection: ${collection.name}`);
+      continue;
+    }
+
+    const selectedModes = (collection.modes || []).filter((mode) =>
+      modeIds.includes(mode.modeId)
+    );
+
+    const variableIds: string[] = [];
+    for (const variableId of collection.variableIds) {
+      const variable = await figma.variables.getVariableByIdAsync(variableId);
+      if (!variable) {
+        continue;
+      }
+
+      const paths = [variable.name, `${collection.name}/${variable.name}`];
+      if (
+        (includePatterns.length > 0 && !matchesAny(includePatterns, paths)) ||
+        matchesAny(excludePatterns, paths)
+      ) {
+        continue;
+      }
+
+      const reason = options.includeHiddenVariables
+        ? null
+        : getHiddenReason(variable, collection);
+      if (reason) {
+        hidden.push({
+          id: variable.id,
+          path: variable.name,
+          collection: collection.name,
+          reason,
+        });
+        continue;
+      }
+
+      variableIds.push(variableId);
+    }
+
+    if (variableIds.length === 0) {
+      console.log(`⏭️ No selected variables in collection: ${collection.name}`);
+      continue;
+    }
+
+    // Figma collections expose their fields through accessors, which a
+    // spread doesn't reliably copy
+    selected.push({
+      id: collection.id,
+      name: collection.name,
+      modes: selectedModes.length > 0 ? selectedModes : collection.modes,
+      defaultModeId: collection.defaultModeId,
+      variableIds,
+      hiddenFromPublishing: collection.hiddenFromPublishing,
+      remote: collection.remote,
+    });
+  }
+
+  if (hidden.length > 0) {
+    console.log(`🙈 Hiding ${hidden.length} hidden or private variable(s) from the output`);
+  }
+
+  return { collections: selected, hidden };
+};
+
+/**
+ * Summarizes the selection for commit messages and logs
+ */
+export const describeSelection = (
+  collections: VariableCollection[],
+  options: ConversionOptions,
+  referencedCollections: VariableCollection[] = []
+): ConversionSelection => ({
+  collections: collections.map((collection) => collection.name),
+  referencedCollections: referencedCollections.map(
+    (collection) => collection.name
+  ),
+  modes: collections.reduce<string[]>(
+    (modes, collection) =>
+      modes.concat(
+        (collection.modes || [])
+          .map((mode) => mode.name)
+          .filter((name) => !modes.includes(name))
+      ),
+    []
+  ),
+  includePatterns: options.includePatterns || [],
+  excludePatterns: options.excludePatterns || [],
+});
@@ -4,8 +4,18 @@
 
 import {
   FONTS_KEYWORDS,
+  RADIUS_KEYWORDS,
+  BORDER_WIDTH_KEYWORDS,
+  FONT_SIZE_KEYWORDS,
+  SPACING_KEYWORDS,
+  SIZE_KEYWORDS,
 } from "../constants/token-patterns";
-import { VariableCategory } from "../types/index";
+import { SCOPE_MAPPINGS, ScopeMapping } from "../constants/scope-mappings";
+import {
+  ClassificationRule,
+  DimensionCategory,
+  VariableCategory,
+} from "../types/index";
 
 /**
  * Checks if variable is a fonts type
@@ -14,9 +24,68 @@ const isFontsVariable = (name: string): boolean =>
   FONTS_KEYWORDS.some((term) => name.includes(term));
 
 /**
- * Detects the type of a variable based on its name patterns
+ * Resolves the semantics implied by a variable's Figma scopes.
+ * Returns null when scopes are missing, only ALL_SCOPES, or disagree on
+ * category/unit, so callers fall back to name keywords.
+ */
+export const resolveScopeMapping = (
+  scopes?: readonly VariableScope[]
+): ScopeMapping | null => {
+  const mappings = (scopes || [])
+    .map((scope) => SCOPE_MAPPINGS[scope])
+    .filter((mapping): mapping is ScopeMapping => Boolean(mapping));
+
+  if (mappings.length === 0) {
+    return null;
+  }
+
+  const [first] = mappings;
+  const consistent = mappings.every(
+    (mapping) =>
+      mapping.category === first.category && mapping.unit === first.unit
+  );
+  if (!consistent) {
+    return null;
+  }
+
+  // e.g. WIDTH_HEIGHT + GAP: same unit but no single override bucket
+  const sameDimension = mappings.every(
+    (mapping) => mapping.dimensionCategory === first.dimensionCategory
+  );
+
+  return {
+    category: first.category,
+    unit: first.unit,
+    ...(sameDimension && first.dimensionCategory
+      ? { dimensionCategory: first.dimensionCategory }
+      : {}),
+  };
+};
+
+/**
+ * Detects the type of a variable. BOOLEAN variables always get their own
+ * category; otherwise a matching classification rule wins, then Figma
+ * scopes, then name patterns.
  */
-export const detectVariableType = (name: string): VariableCategory => {
+export const detectVariableType = (
+  name: string,
+  scopes?: readonly VariableScope[],
+  rule?: ClassificationRule | null,
+  resolvedType?: Variable["resolvedType"]
+): VariableCategory => {
+  if (resolvedType === "BOOLEAN") {
+    return "boolean";
+  }
+
+  if (rule?.category) {
+    return rule.category;
+  }
+
+  const scopeMapping = resolveScopeMapping(scopes);
+  if (scopeMapping) {
+    return scopeMapping.category;
+  }
+
   const lowerName = name.toLowerCase();
 
   if (lowerName.includes("color")) {
@@ -34,3 +103,24 @@ export const detectVariableType = (name: string): VariableCategory => {
 
   return "measures";
 };
+
+/**
+ * Detects which dimension kind a pixel variable represents, used to pick
+ * per-category unit overrides. Radius wins over border so "borderRadius"
+ * isn't treated as a border width.
+ */
+export const detectDimensionCategory = (
+  name: string
+): DimensionCategory | null => {
+  const lowerName = name.toLowerCase().replace(/[\s/_]+/g, "");
+  const matches = (keywords: readonly string[]) =>
+    keywords.some((keyword) => lowerName.includes(keyword));
+
+  if (matches(RADIUS_KEYWORDS)) return "radius";
+  if (matches(BORDER_WIDTH_KEYWORDS)) return "border-width";
+  if (matches(FONT_SIZE_KEYWORDS)) return "font-size";
+  if (matches(SPACING_KEYWORDS)) return "spacing";
+  if (matches(SIZE_KEYWORDS)) return "size";
+
+  return null;
+};
@@ -43,12 +43,56 @@ declare global {
     id: string;
   }
 
+  /** Properties a variable can be bound to in the Figma UI */
+  type VariableScope =
+    | "ALL_SCOPES"
+    | "TEXT_CONTENT"
+    | "CORNER_RADIUS"
+    | "WIDTH_HEIGHT"
+    | "GAP"
+    | "ALL_FILLS"
+    | "FRAME_FILL"
+    | "SHAPE_FILL"
+    | "TEXT_FILL"
+    | "STROKE_COLOR"
+    | "STROKE_FLOAT"
+    | "EFFECT_FLOAT"
+    | "EFFECT_COLOR"
+    | "OPACITY"
+    | "FONT_FAMILY"
+    | "FONT_STYLE"
+    | "FONT_WEIGHT"
+    | "FONT_SIZE"
+    | "LINE_HEIGHT"
+    | "LETTER_SPACING"
+    | "PARAGRAPH_SPACING"
+    | "PARAGRAPH_INDENT"
+    | "FONT_VARIATIONS";
+
   /** Figma variable collection containing multiple design variables */
   interface VariableCollection {
     id: string;
     name: string;
     variableIds: string[];
     modes: { modeId: string; name: string }[];
+    defaultModeId?: string;
+    hiddenFromPublishing?: boolean;
+    /** True for collections from a team library */
+    remote?: boolean;
+  }
+
+  /** Variable collection published by an enabled team library */
+  interface LibraryVariableCollection {
+    key: string;
+    name: string;
+    libraryName: string;
+  }
+
+  /** Variable published in a team library collection */
+  interface LibraryVariable {
+    key: string;
+    name: string;
+    resolvedType: Variable["resolvedType"];
   }
 
   /** Individual Figma design variable with type and values */
@@ -60,6 +104,11 @@ declare global {
     valuesByMode: {
       [modeId: string]: RGB | RGBA | number | string | boolean | VariableAlias;
     };
+    scopes?: VariableScope[];
+    hiddenFromPublishing?: boolean;
+    /** True for variables imported from a team library */
+    remote?: boolean;
+    key?: string;
     setVariableCodeSyntax(platform: string, syntax: string): void;
   }
 
@@ -71,6 +120,16 @@ declare global {
       getVariableCollectionByIdAsync(
         id: string
       ): Promise<VariableCollection | null>;
+      importVariableByKeyAsync(key: string): Promise<Variable>;
+    };
+    /** Enabled team libraries (requires the `teamlibrary` permission) */
+    teamLibrary: {
+      getAvailableLibraryVariableCollectionsAsync(): Promise<
+        LibraryVariableCollection[]
+      >;
+      getVariablesInLibraryCollectionAsync(
+        libraryCollectionKey: string
+      ): Promise<LibraryVariable[]>;
     };
     codegen: {
       preferences: {
@@ -6,6 +6,8 @@
 export interface GitHubFileResponse {
   sha?: string;
   content?: string;
+  /** "none" when the file is too large (over 1 MB) to include its content */
+  encoding?: string;
 }
 
 /** Standardized response format for GitHub operations */
@@ -13,6 +15,14 @@ export interface GitHubApiResponse {
   success: boolean;
   message: string;
   sha?: string;
+  /** Branch the commit was pushed to */
+  branch?: string;
+  /** Pull request opened (or already open) for the branch */
+  prUrl?: string;
+  /** Problem after the commit was pushed, e.g. the pull request failed */
+  warning?: string;
+  /** Nothing changed compared with the base branch, so nothing was pushed */
+  skipped?: boolean;
 }
 
 /** GitHub API tree item */
@@ -23,11 +33,44 @@ export interface GitHubTreeItem {
   sha: string;
 }
 
+/**
+ * Where exports are committed: a new feature branch off the base branch,
+ * straight onto the base branch (fast-forward only), or onto one rolling
+ * sync branch that is kept up to date with the base branch
+ */
+export type GitHubPushMode = "feature-branch" | "direct" | "sync-branch";
+
+/**
+ * Pull request opened after a feature or sync branch export. Templates use
+ * {date}, {format}, {themes}, {branch}, {base}, {tokenCounts}, {changes}
+ */
+export interface GitHubPullRequestOptions {
+  enabled: boolean;
+  titleTemplate?: string;
+  bodyTemplate?: string;
+  /** User logins, or `org/team-slug` for team reviewers */
+  reviewers?: string[];
+  labels?: string[];
+  draft?: boolean;
+}
+
 /** GitHub configuration */
 export interface GitHubConfig {
   owner: string;
   repo: string;
+  /** Base branch; the repository's default branch when empty */
   branch: string;
   path: string;
   token: string;
+  /**
+   * REST API base URL; https://api.github.com when empty, e.g.
+   * https://github.example.com/api/v3 for GitHub Enterprise Server
+   */
+  apiBaseUrl?: string;
+  /** Defaults to "feature-branch" */
+  pushMode?: GitHubPushMode;
+  /** Branch used in "sync-branch" mode; "figma/tokens" when empty */
+  syncBranch?: string;
+  /** Opens (or, for the sync branch, updates) a pull request when enabled */
+  pullRequest?: GitHubPullRequestOptions;
 }
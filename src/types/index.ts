@@ -8,15 +8,40 @@ import "./figma.types";
 // Re-export all types explicitly
 export type {
   CSSVariable,
+  TokenSource,
   ProcessedVariable,
   VariablesByTheme,
   ConversionResult,
+  ConversionSelection,
+  HiddenReason,
+  HiddenVariable,
+  LibraryTokenMode,
+  TypographyGroup,
+  TypographyProperty,
   ThemeCssOutput,
+  ChangedToken,
+  ThemeTokenDiff,
   ExportFormat,
   ExportOptions,
+  ThemeLayout,
   ConversionOptions,
+  ColorFormat,
+  DimensionUnit,
+  DimensionCategory,
+  ClassificationRule,
+  ClassificationUnit,
+  ClassificationTransform,
+  FluidOptions,
+  ModeMapping,
+  ModeMappingSuggestion,
+  AliasStrategy,
+  CollisionStrategy,
+  NameCollision,
+  TokenPathCollision,
   TokenNamingConvention,
+  NameTemplate,
   VariableCategory,
+  BooleanStrategy,
 } from "./variable.types";
 
 export type {
@@ -24,4 +49,6 @@ export type {
   GitHubApiResponse,
   GitHubTreeItem,
   GitHubConfig,
+  GitHubPushMode,
+  GitHubPullRequestOptions,
 } from "./github.types";
@@ -2,11 +2,31 @@
  * Variable-related type definitions
  */
 
+/** Figma origin of an exported token */
+export interface TokenSource {
+  id: string;
+  path: string;
+  /** Path after prefixes and the name template; used for token trees */
+  tokenPath?: string;
+  collection: string;
+  /** Collection mode the value was converted from */
+  mode?: string;
+  /** The collection's default mode, or its first mode */
+  defaultMode?: string;
+  resolvedType: Variable["resolvedType"];
+  scopes?: VariableScope[];
+}
+
 /** CSS variable with metadata */
 export interface CSSVariable {
   name: string;
   value: string;
   type: VariableCategory;
+  source?: TokenSource;
+  /** Tailwind @theme namespace assigned by a classification rule */
+  tailwindNamespace?: string;
+  /** CSS name of the global/collection prefix the name starts with */
+  namePrefix?: string;
 }
 
 /** CSS variable with additional internal metadata */
@@ -25,28 +45,326 @@ export interface ConversionResult {
   count: number;
   themes?: string[];
   variablesByTheme?: Record<string, CSSVariable[]>;
+  typography?: TypographyGroup[];
+  /** Variables whose CSS names collided and how they were renamed */
+  collisions?: NameCollision[];
+  /** Collections, modes and name filters the result was converted with */
+  selection?: ConversionSelection;
+  /** Hidden and private variables left out of the output */
+  hidden?: HiddenVariable[];
+}
+
+/** Why a variable was left out of the output */
+export type HiddenReason =
+  | "hidden-from-publishing"
+  | "hidden-collection"
+  | "private-name";
+
+/** Variable excluded from the output but still resolvable as an alias */
+export interface HiddenVariable {
+  id: string;
+  path: string;
+  collection: string;
+  reason: HiddenReason;
+}
+
+/** Summary of a conversion's collection, mode and name filters */
+export interface ConversionSelection {
+  collections: string[];
+  /** Library collections referenced with `var()` but not emitted */
+  referencedCollections: string[];
+  modes: string[];
+  includePatterns: string[];
+  excludePatterns: string[];
 }
 
-/** Theme-aware CSS output (theme name -> CSS content) */
+/** Font properties that make up a composite text style */
+export type TypographyProperty =
+  | "fontFamily"
+  | "fontSize"
+  | "fontWeight"
+  | "lineHeight"
+  | "letterSpacing";
+
+/**
+ * Text style detected from grouped font variables, e.g. `Heading/H1/fontSize`.
+ * Members are custom property names, so one group serves every theme.
+ */
+export interface TypographyGroup {
+  /** Figma group path, e.g. "Heading/H1" */
+  path: string;
+  /** Style name used by utilities, e.g. "h1" for `.text-h1` */
+  slug: string;
+  /** Custom property holding the `font` shorthand */
+  name: string;
+  members: Partial<Record<TypographyProperty, string>>;
+}
+
+/**
+ * Theme-aware CSS output (theme name -> CSS content)
+ * An empty theme name writes the file directly into the export folder.
+ */
 export interface ThemeCssOutput {
   [themeName: string]: string;
 }
 
+/** A token whose value differs between the base branch and the export */
+export interface ChangedToken {
+  name: string;
+  before: string;
+  after: string;
+}
+
+/** Token-level differences of one exported file against the base branch */
+export interface ThemeTokenDiff {
+  theme: string;
+  path: string;
+  /** Tokens in the exported file */
+  tokenCount: number;
+  added: { name: string; value: string }[];
+  removed: { name: string; value: string }[];
+  changed: ChangedToken[];
+  /** The file matches the base version apart from its export timestamp */
+  unchanged: boolean;
+}
+
 /** Supported export formats */
-export type ExportFormat = "css-variables" | "tailwind-theme" | "scss";
+export type ExportFormat =
+  | "css-variables"
+  | "tailwind-theme"
+  | "scss"
+  | "dtcg-json"
+  | "typescript";
 
 /** Supported token naming conventions */
-export type TokenNamingConvention = "camel-case" | "kebab-case";
+export type TokenNamingConvention =
+  | "camel-case"
+  | "kebab-case"
+  | "snake-case"
+  | "pascal-case"
+  | "constant-case";
+
+/**
+ * Rewrites Figma variable paths before the naming convention is applied.
+ * Template placeholders: {collection}, {path} (every segment but the
+ * last), {path[1]}, {path[1:]}, {path[:-1]} and {name} (last segment)
+ */
+export interface NameTemplate {
+  /** e.g. "ds/{path[1:]}/{name}"; the rewritten path when omitted */
+  template?: string;
+  /** Leading path segments dropped before the template is applied */
+  dropSegments?: number;
+  /** Words removed from every segment (case-insensitive) */
+  stripWords?: string[];
+  /** Segment renames (case-insensitive keys), e.g. { "Colors": "color" } */
+  renameSegments?: Record<string, string>;
+}
+
+/** How multi-theme exports are split into files */
+export type ThemeLayout = "per-theme" | "combined" | "light-dark";
 
 /** Options that affect exported file content */
 export interface ExportOptions {
   format: ExportFormat;
+  themeLayout?: ThemeLayout;
+  /**
+   * Theme written to :root in the combined layout by the collections that
+   * have it; other collections use their default mode
+   */
+  defaultTheme?: string;
+  /** Selector for other themes in the combined layout; `{theme}` is the kebab-case theme name */
+  themeSelector?: string;
+  /** Theme modes paired into `light-dark()` colors by the light-dark layout */
+  colorScheme?: { light: string; dark: string };
+  /** Media condition per theme, e.g. `(min-width: 768px)`, used instead of its selector */
+  modeConditions?: Record<string, string>;
+  /** Emit `.text-*` utility classes for typography groups in CSS output */
+  typographyUtilities?: boolean;
+  /** How BOOLEAN variables are exported (defaults to numeric) */
+  booleanStrategy?: BooleanStrategy;
+}
+
+/** Supported color output formats */
+export type ColorFormat =
+  | "hex"
+  | "hex8"
+  | "rgb"
+  | "hsl"
+  | "oklch"
+  | "oklab"
+  | "display-p3";
+
+/** Units a pixel dimension can be written in */
+export type DimensionUnit = "px" | "rem" | "em" | "unitless";
+
+/** Dimension kinds that can override the default unit */
+export type DimensionCategory =
+  | "spacing"
+  | "size"
+  | "radius"
+  | "border-width"
+  | "font-size";
+
+/** Units a classification rule can assign to FLOAT values */
+export type ClassificationUnit = DimensionUnit | "percent" | "ms";
+
+/** Numeric transforms applied before a rule's unit */
+export type ClassificationTransform =
+  | "none"
+  | "round"
+  | "divide-by-100"
+  | "multiply-by-100";
+
+/**
+ * User-defined rule that classifies variables before the built-in keywords.
+ * Empty match fields match everything; unset outputs keep the default.
+ * `namePattern` is a glob on the Figma path (`*` within a segment, `**`
+ * across segments) or a regex written as `/pattern/flags`.
+ */
+export interface ClassificationRule {
+  namePattern?: string;
+  collection?: string;
+  resolvedType?: Variable["resolvedType"];
+  scope?: VariableScope;
+  category?: VariableCategory;
+  unit?: ClassificationUnit;
+  transform?: ClassificationTransform;
+  tailwindNamespace?: string;
+}
+
+/** Pair of modes used as the endpoints of a fluid scale */
+export interface FluidOptions {
+  /** Mode used at the minimum viewport width, e.g. "Mobile" */
+  minMode: string;
+  /** Mode used at the maximum viewport width, e.g. "Desktop" */
+  maxMode: string;
+  /** Viewport width in px where the scale starts (defaults to 320) */
+  minViewport?: number;
+  /** Viewport width in px where the scale ends (defaults to 1440) */
+  maxViewport?: number;
+}
+
+/**
+ * Mode to resolve in each referenced collection, per source mode name.
+ * Example: { "Brand A Light": { Primitives: "Light" } }
+ */
+export type ModeMapping = Record<string, Record<string, string>>;
+
+/** Collection modes and references offered in the mode mapping editor */
+export interface ModeMappingSuggestion {
+  collections: {
+    name: string;
+    modes: string[];
+    /** Multi-mode collections this collection's variables alias */
+    references: string[];
+  }[];
+  mapping: ModeMapping;
+}
+
+/**
+ * How aliases are written: `var()` references, inlined values, references
+ * with an inlined fallback, or references only within the same collection
+ */
+export type AliasStrategy =
+  | "reference"
+  | "inline"
+  | "reference-with-fallback"
+  | "same-collection";
+
+/**
+ * How variables that map to the same CSS name are told apart:
+ * prefix every colliding name with its collection, number the later
+ * ones, or fail the conversion
+ */
+export type CollisionStrategy = "collection-prefix" | "numeric-suffix" | "fail";
+
+/** Figma variables that map to the same CSS custom property name */
+export interface NameCollision {
+  name: string;
+  variables: {
+    id: string;
+    path: string;
+    collection: string;
+    /** Name assigned after resolution */
+    resolvedName: string;
+  }[];
 }
 
+/**
+ * Token whose path in a DTCG or TypeScript output was already taken, e.g.
+ * by a token whose name only differs in case, and was numbered instead
+ */
+export interface TokenPathCollision {
+  /** CSS name of the renamed token */
+  variable: string;
+  path: string;
+  resolvedPath: string;
+}
+
+/**
+ * Whether imported team library tokens are written to the output or only
+ * referenced as `var()` names provided by another package
+ */
+export type LibraryTokenMode = "emit" | "reference";
+
 /** Options that affect variable conversion */
 export interface ConversionOptions {
   namingConvention: TokenNamingConvention;
+  /** Prefix for every CSS name, e.g. "acme" → --acme-spacing-md */
+  namePrefix?: string;
+  /** Extra prefixes keyed by collection name, added after the global one */
+  collectionPrefixes?: Record<string, string>;
+  /** Rewrites variable paths before the naming convention is applied */
+  nameTemplate?: NameTemplate;
+  /** Color output format (defaults to oklch) */
+  colorFormat?: ColorFormat;
+  /** Decimals kept for fractional color components (defaults to 3) */
+  colorPrecision?: number;
+  /** Unit for pixel dimensions (defaults to rem) */
+  dimensionUnit?: DimensionUnit;
+  /** Root font size in px used for rem/em conversion (defaults to 16) */
+  rootFontSize?: number;
+  /** Per-category unit overrides, e.g. keep border widths in px */
+  unitOverrides?: Partial<Record<DimensionCategory, DimensionUnit>>;
+  /** Ordered classification rules; the first match wins */
+  classificationRules?: ClassificationRule[];
+  /** Merge two modes into clamp() dimensions instead of separate themes */
+  fluid?: FluidOptions;
+  /** Explicit cross-collection mode mapping; falls back to matching names */
+  modeMapping?: ModeMapping;
+  /** How aliases are written (defaults to "reference") */
+  aliasStrategy?: AliasStrategy;
+  /** Alias strategy overrides keyed by the aliasing variable's collection */
+  collectionAliasStrategies?: Record<string, AliasStrategy>;
+  /** How colliding CSS names are resolved (defaults to "numeric-suffix") */
+  collisionStrategy?: CollisionStrategy;
+  /** Collections to convert; all local collections when empty */
+  collectionIds?: string[];
+  /**
+   * Modes to convert. Collections without any of these modes keep all of
+   * theirs, so single-mode primitives aren't dropped
+   */
+  modeIds?: string[];
+  /** Only convert variables whose path or `collection/path` matches a glob */
+  includePatterns?: string[];
+  /** Skip variables whose path or `collection/path` matches a glob */
+  excludePatterns?: string[];
+  /**
+   * Also output variables hidden from publishing or named `_…`/`.…`.
+   * By default they are only used to resolve aliases
+   */
+  includeHiddenVariables?: boolean;
+  /** Team library collections to import and convert */
+  libraryCollectionKeys?: string[];
+  /** How imported library tokens are output (defaults to "reference") */
+  libraryTokens?: LibraryTokenMode;
 }
 
 /** Variable type categories */
-export type VariableCategory = "color" | "measures" | "fonts";
+export type VariableCategory = "color" | "measures" | "fonts" | "boolean";
+
+/**
+ * How BOOLEAN variables are written: `1`/`0` for calc() toggles, the space
+ * toggle (` ` when on, `initial` when off), JS/JSON formats only, or not at all
+ */
+export type BooleanStrategy = "numeric" | "space-toggle" | "js-only" | "skip";